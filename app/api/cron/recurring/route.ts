@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { listUserIds } from '@/lib/rollover';
+import { materialiseTemplates } from '@/lib/templates';
+
+// Meant for an hourly scheduler, so recurring tasks appear soon after each
+// user's local midnight even if they don't open the app.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    let created = 0;
+    let skipped = 0;
+    for (const userId of await listUserIds()) {
+      const result = await materialiseTemplates(userId);
+      created += result.created.length;
+      skipped += result.skipped.length;
+    }
+    return NextResponse.json({ success: true, created, skipped });
+  } catch (error) {
+    console.error("Creating recurring tasks failed:", error);
+    return NextResponse.json({ error: "Failed to create recurring tasks" }, { status: 500 });
+  }
+}
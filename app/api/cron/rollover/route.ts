@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { rolloverAllUsers } from '@/lib/rollover';
+
+// Meant for a scheduler (e.g. Vercel Cron) shortly after Monday 00:00.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const results = await rolloverAllUsers();
+    return NextResponse.json({ success: true, users: results.length, results });
+  } catch (error) {
+    console.error("Week rollover failed:", error);
+    return NextResponse.json({ error: "Failed to roll over weeks" }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import metrics from '@/lib/metrics';
+
+// Cache and throttling counters for model calls. Uses the cron secret since
+// only operators should read it.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await metrics.snapshot());
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Failed to fetch metrics" }, { status: 500 });
+  }
+}
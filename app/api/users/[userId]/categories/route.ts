@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+import { resolveCategories } from '@/lib/categories';
+import { recomputeAllWeeks } from '@/lib/weeklyStats';
+import { ValidationError, parseCategories } from '@/lib/validation';
+
+export async function GET(request: Request, { params }: { params: { userId: string } }) {
+  const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const profile = await repos.profiles.get(userId);
+    return NextResponse.json(resolveCategories(profile));
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Failed to fetch categories" }, { status: 500 });
+  }
+}
+
+// Replaces the user's categories. Body: { categories, reassign? }, where
+// reassign maps a removed category id to the id its tasks (and recurring
+// templates) move to. Removing a category that still has either without a
+// reassignment is refused with 409.
+// Open weeks are re-scored; closed weeks keep their rating.
+export async function POST(request: Request, { params }: { params: { userId: string } }) {
+  const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const body = await request.json();
+    const categories = parseCategories(body?.categories);
+    if (categories.length === 0) {
+      return NextResponse.json({ error: "At least one category is required" }, { status: 400 });
+    }
+    const reassign: Record<string, unknown> = body?.reassign && typeof body.reassign === 'object' ? body.reassign : {};
+
+    const profile = await repos.profiles.get(userId);
+    if (!profile) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    const kept = new Set(categories.map(c => c.id));
+    const removed = resolveCategories(profile).map(c => c.id).filter(id => !kept.has(id));
+    for (const id of removed) {
+      if (reassign[id] !== undefined && !kept.has(String(reassign[id]))) {
+        return NextResponse.json({ error: `Tasks from ${id} must move to an existing category` }, { status: 400 });
+      }
+    }
+
+    const tasks = await repos.tasks.list(userId);
+    const templates = await repos.templates.list(userId);
+    const orphaned = removed.filter(id => reassign[id] === undefined &&
+      (tasks.some(t => t.categoryId === id) || templates.some(t => t.categoryId === id)));
+    if (orphaned.length > 0) {
+      return NextResponse.json({ error: `Categories still have tasks: ${orphaned.join(', ')}`, categoryIds: orphaned }, { status: 409 });
+    }
+
+    for (const task of tasks) {
+      if (removed.includes(task.categoryId)) {
+        await repos.tasks.save(userId, { ...task, categoryId: String(reassign[task.categoryId]) });
+      }
+    }
+    for (const template of templates) {
+      if (removed.includes(template.categoryId)) {
+        await repos.templates.save(userId, { ...template, categoryId: String(reassign[template.categoryId]) });
+      }
+    }
+    await repos.profiles.save(userId, { ...profile, categories });
+
+    const stats = await recomputeAllWeeks(userId, { includeSealed: false });
+    return NextResponse.json({ categories, stats });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(error);
+    return NextResponse.json({ error: "Failed to update categories" }, { status: 500 });
+  }
+}
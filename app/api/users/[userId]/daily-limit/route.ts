@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+import { resolveDailyLimitPolicy } from '@/lib/dailyLimit';
+import { ValidationError, parseDailyLimitPolicy } from '@/lib/validation';
+
+export async function GET(request: Request, { params }: { params: { userId: string } }) {
+  const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const profile = await repos.profiles.get(userId);
+    return NextResponse.json(resolveDailyLimitPolicy(profile));
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Failed to fetch daily limit policy" }, { status: 500 });
+  }
+}
+
+// Saves the policy. It applies to tasks saved from now on; tasks already over
+// the limit stay as they are.
+export async function POST(request: Request, { params }: { params: { userId: string } }) {
+  const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const body = await request.json();
+    const policy = parseDailyLimitPolicy(body?.policy);
+
+    const profile = await repos.profiles.get(userId);
+    if (!profile) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+    await repos.profiles.save(userId, { ...profile, dailyLimitPolicy: policy });
+    return NextResponse.json({ policy });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(error);
+    return NextResponse.json({ error: "Failed to update daily limit policy" }, { status: 500 });
+  }
+}
@@ -1,21 +1,28 @@
 import { NextResponse } from 'next/server';
-import redis from '@/lib/redis';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+import { rolloverUser } from '@/lib/rollover';
+import { materialiseTemplates } from '@/lib/templates';
 
 export async function GET(request: Request, { params }: { params: { userId: string } }) {
   const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
   try {
-    const profile = await redis.get(`user:${userId}:profile`);
-    
-    const tasksHash = await redis.hgetall(`user:${userId}:tasks`);
-    const tasks = tasksHash ? Object.values(tasksHash) : [];
-    
-    const statsHash = await redis.hgetall(`user:${userId}:stats`);
-    const stats = statsHash ? Object.values(statsHash) : [];
+    // Seal any weeks that ended since the last visit before reading
+    await rolloverUser(userId);
+    // and create today's recurring tasks
+    await materialiseTemplates(userId);
 
-    const screentimeHash = await redis.hgetall(`user:${userId}:screentime`);
-    const screentime = screentimeHash ? Object.values(screentimeHash) : [];
+    const profile = await repos.profiles.get(userId);
+    const tasks = await repos.tasks.list(userId);
+    const stats = await repos.stats.list(userId);
+    const screentime = await repos.screentime.list(userId);
+    const reports = await repos.reports.list(userId);
+    const projects = await repos.projects.list(userId);
+    const templates = await repos.templates.list(userId);
 
-    return NextResponse.json({ profile, tasks, stats, screentime });
+    return NextResponse.json({ profile, tasks, stats, screentime, reports, projects, templates });
   } catch (error) {
     console.error(error);
     return NextResponse.json({ error: "Failed to fetch data" }, { status: 500 });
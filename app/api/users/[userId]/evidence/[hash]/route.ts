@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+import { getProofExtension } from '@/lib/proof';
+
+// Serves a stored proof file. The hash names the content, so it can be cached
+// forever. Browsers must use the stored type rather than sniff one.
+export async function GET(request: Request, { params }: { params: { userId: string, hash: string } }) {
+  const { userId, hash } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const evidence = await repos.evidence.get(userId, hash);
+    if (!evidence) {
+      return NextResponse.json({ error: "Evidence not found" }, { status: 404 });
+    }
+    return new NextResponse(Buffer.from(evidence.data, 'base64'), {
+      headers: {
+        'Content-Type': evidence.mimeType,
+        'Content-Disposition': `inline; filename="${evidence.hash}.${getProofExtension(evidence.mimeType)}"`,
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Failed to fetch evidence" }, { status: 500 });
+  }
+}
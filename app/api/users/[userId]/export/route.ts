@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { authorizeUser } from '@/lib/session';
+import { CSV_ENTITIES, CsvEntity, buildExport, exportToCsv } from '@/lib/portability';
+
+// ?format=json (default) downloads everything; ?format=csv&entity=tasks
+// downloads one entity as CSV.
+export async function GET(request: Request, { params }: { params: { userId: string } }) {
+  const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'json';
+    const entity = searchParams.get('entity') as CsvEntity;
+    const date = new Date().toISOString().slice(0, 10);
+
+    if (format === 'json') {
+      return new NextResponse(JSON.stringify(await buildExport(userId), null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="goal-guardian-${date}.json"`,
+        },
+      });
+    }
+
+    if (format === 'csv' && CSV_ENTITIES.includes(entity)) {
+      return new NextResponse(exportToCsv(await buildExport(userId), entity), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="goal-guardian-${entity}-${date}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ error: `format must be json, or csv with entity one of ${CSV_ENTITIES.join(', ')}` }, { status: 400 });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Failed to export data" }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { authorizeUser } from '@/lib/session';
+import { ValidationError } from '@/lib/validation';
+import { importAccount } from '@/lib/portability';
+
+export async function POST(request: Request, { params }: { params: { userId: string } }) {
+  const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const summary = await importAccount(userId, await request.json());
+    return NextResponse.json(summary);
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(error);
+    return NextResponse.json({ error: "Failed to import data" }, { status: 500 });
+  }
+}
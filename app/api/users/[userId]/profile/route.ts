@@ -1,21 +1,45 @@
 import { NextResponse } from 'next/server';
-import redis from '@/lib/redis';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+import { ValidationError } from '@/lib/validation';
 
+// Streaks are replayed from sealed weeks by lib/streaks.ts; the client never
+// sets them.
+const SERVER_OWNED_FIELDS: string[] = ['currentStreak', 'longestStreak', 'googleId'];
+
+// Creates the profile, or updates the settings the body carries on the stored
+// one. Server-owned fields in the body are ignored.
 export async function POST(request: Request, { params }: { params: { userId: string } }) {
   const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
   try {
     const body = await request.json();
-    await redis.set(`user:${userId}:profile`, body);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new ValidationError('profile', ['must be an object']);
+    }
+    const settings = Object.fromEntries(Object.entries(body).filter(([field]) => !SERVER_OWNED_FIELDS.includes(field)));
+
+    const stored = await repos.profiles.get(userId);
+    await repos.profiles.save(userId, stored
+      ? { ...stored, ...settings }
+      : { ...settings, currentStreak: 0, googleId: userId });
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(error);
     return NextResponse.json({ error: "Failed to update profile" }, { status: 500 });
   }
 }
 
 export async function GET(request: Request, { params }: { params: { userId: string } }) {
   const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
   try {
-    const profile = await redis.get(`user:${userId}:profile`);
+    const profile = await repos.profiles.get(userId);
     return NextResponse.json(profile);
   } catch (error) {
     return NextResponse.json({ error: "Failed to fetch profile" }, { status: 500 });
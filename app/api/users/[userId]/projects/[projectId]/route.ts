@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+
+// Deletes the project. Its tasks and recurring templates stay, detached from
+// any project.
+export async function DELETE(request: Request, { params }: { params: { userId: string, projectId: string } }) {
+  const { userId, projectId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    for (const task of await repos.tasks.list(userId)) {
+      if (task.projectId === projectId) {
+        await repos.tasks.save(userId, { ...task, projectId: undefined });
+      }
+    }
+    for (const template of await repos.templates.list(userId)) {
+      if (template.projectId === projectId) {
+        await repos.templates.save(userId, { ...template, projectId: undefined });
+      }
+    }
+    await repos.projects.remove(userId, projectId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Failed to delete project" }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+import { ValidationError } from '@/lib/validation';
+
+export async function GET(request: Request, { params }: { params: { userId: string } }) {
+  const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const projects = await repos.projects.list(userId);
+    return NextResponse.json(projects);
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Failed to fetch projects" }, { status: 500 });
+  }
+}
+
+// Creates or updates a project; the client picks the id, as with tasks
+export async function POST(request: Request, { params }: { params: { userId: string } }) {
+  const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const project = await repos.projects.save(userId, await request.json());
+    return NextResponse.json(project);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(error);
+    return NextResponse.json({ error: "Failed to save project" }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { authorizeUser } from '@/lib/session';
+import { previewRatings } from '@/lib/weeklyStats';
+import { ValidationError, parseRatingPolicy } from '@/lib/validation';
+
+// Old vs new rating for every stored week under a draft policy. Nothing is saved.
+export async function POST(request: Request, { params }: { params: { userId: string } }) {
+  const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const body = await request.json();
+    const policy = parseRatingPolicy(body?.policy);
+    return NextResponse.json(await previewRatings(userId, policy));
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(error);
+    return NextResponse.json({ error: "Failed to preview ratings" }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+import { resolveRatingPolicy } from '@/lib/rating';
+import { recomputeAllWeeks } from '@/lib/weeklyStats';
+import { ValidationError, parseRatingPolicy } from '@/lib/validation';
+
+export async function GET(request: Request, { params }: { params: { userId: string } }) {
+  const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const profile = await repos.profiles.get(userId);
+    return NextResponse.json(resolveRatingPolicy(profile));
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Failed to fetch rating policy" }, { status: 500 });
+  }
+}
+
+// Saves the policy and re-scores open weeks with it. Closed (sealed) weeks keep
+// their rating unless the body sets "rescorePast".
+export async function POST(request: Request, { params }: { params: { userId: string } }) {
+  const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const body = await request.json();
+    const policy = parseRatingPolicy(body?.policy);
+
+    const profile = await repos.profiles.get(userId);
+    if (!profile) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+    await repos.profiles.save(userId, { ...profile, ratingPolicy: policy });
+
+    const stats = await recomputeAllWeeks(userId, { includeSealed: body?.rescorePast === true });
+    return NextResponse.json({ policy, stats });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(error);
+    return NextResponse.json({ error: "Failed to update rating policy" }, { status: 500 });
+  }
+}
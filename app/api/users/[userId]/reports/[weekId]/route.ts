@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+import { generateWeeklyReport } from '@/lib/coaching';
+
+export async function GET(request: Request, { params }: { params: { userId: string, weekId: string } }) {
+  const { userId, weekId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const report = await repos.reports.get(userId, weekId);
+    if (!report) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Failed to fetch report" }, { status: 500 });
+  }
+}
+
+// (Re)writes the report for a closed week, e.g. one closed before reports existed
+export async function POST(request: Request, { params }: { params: { userId: string, weekId: string } }) {
+  const { userId, weekId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const week = await repos.stats.get(userId, weekId);
+    if (!week) {
+      return NextResponse.json({ error: "Week not found" }, { status: 404 });
+    }
+    if (!week.sealedAt) {
+      return NextResponse.json({ error: "Reports are written once the week has closed" }, { status: 409 });
+    }
+
+    const report = await generateWeeklyReport(userId, weekId);
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Failed to write report" }, { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+
+export async function GET(request: Request, { params }: { params: { userId: string } }) {
+  const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const reports = await repos.reports.list(userId);
+    return NextResponse.json(reports.sort((a, b) => a.weekId.localeCompare(b.weekId)));
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Failed to fetch reports" }, { status: 500 });
+  }
+}
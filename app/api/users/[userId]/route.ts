@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import redis from '@/lib/redis';
+import { authorizeUser } from '@/lib/session';
+import { purgeUser } from '@/lib/accounts';
+
+const DELETE_CONFIRMATION = 'DELETE';
+
+// Permanently deletes the account and all of its data. The body must be
+// { "confirm": "DELETE" } so a stray request can't wipe an account.
+export async function DELETE(request: Request, { params }: { params: { userId: string } }) {
+  const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const body = await request.json().catch(() => ({}));
+    if (body?.confirm !== DELETE_CONFIRMATION) {
+      return NextResponse.json({ error: `Set "confirm" to "${DELETE_CONFIRMATION}" to delete this account` }, { status: 400 });
+    }
+
+    const result = await purgeUser(redis, userId);
+    return NextResponse.json({ success: true, deletedKeys: result.deletedKeys, deletedAt: result.tombstone.deletedAt });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Failed to delete account" }, { status: 500 });
+  }
+}
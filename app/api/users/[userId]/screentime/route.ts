@@ -1,15 +1,23 @@
 import { NextResponse } from 'next/server';
-import redis from '@/lib/redis';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+import { ValidationError } from '@/lib/validation';
+import { getWeekIdFromDateString } from '@/lib/dates';
+import { recomputeWeek } from '@/lib/weeklyStats';
 
 export async function POST(request: Request, { params }: { params: { userId: string } }) {
   const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
   try {
-    const entry = await request.json();
-    // Use a list to store screen time entries, or a hash with date as key
-    // Let's use a hash with timestamp as key to keep all entries
-    await redis.hset(`user:${userId}:screentime`, { [entry.submittedAt]: entry });
+    // One entry per day; a second submission for the same date adds to it
+    const entry = await repos.screentime.add(userId, await request.json());
+    await recomputeWeek(userId, getWeekIdFromDateString(entry.date));
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error(error);
     return NextResponse.json({ error: "Failed to store screen time entry" }, { status: 500 });
   }
@@ -17,9 +25,10 @@ export async function POST(request: Request, { params }: { params: { userId: str
 
 export async function GET(request: Request, { params }: { params: { userId: string } }) {
   const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
   try {
-    const entriesHash = await redis.hgetall(`user:${userId}:screentime`);
-    const entries = entriesHash ? Object.values(entriesHash) : [];
+    const entries = await repos.screentime.list(userId);
     return NextResponse.json(entries);
   } catch (error) {
     console.error(error);
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { authorizeUser } from '@/lib/session';
+import { recomputeAllWeeks } from '@/lib/weeklyStats';
+
+export async function POST(request: Request, { params }: { params: { userId: string } }) {
+  const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const stats = await recomputeAllWeeks(userId);
+    return NextResponse.json(stats);
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Failed to recompute stats" }, { status: 500 });
+  }
+}
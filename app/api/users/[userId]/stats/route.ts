@@ -1,22 +1,43 @@
 import { NextResponse } from 'next/server';
-import redis from '@/lib/redis';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+import { getUserTimeZone, getWeekId } from '@/lib/dates';
+import { ValidationError } from '@/lib/validation';
+import { recomputeWeek } from '@/lib/weeklyStats';
 
 export async function POST(request: Request, { params }: { params: { userId: string } }) {
   const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
   try {
-    const stat = await request.json();
-    await redis.hset(`user:${userId}:stats`, { [stat.weekId]: stat });
-    return NextResponse.json({ success: true });
+    // Hours and rating are always derived server-side; only the goal and
+    // week metadata are taken from the client. A finished week keeps the goal
+    // it was stored with (or the profile's), so it can't be lowered afterwards.
+    const { weekId, goalHours, startDate, endDate, streakActive } = await request.json();
+    if (!weekId) {
+      return NextResponse.json({ error: "Week ID is required" }, { status: 400 });
+    }
+    const profile = await repos.profiles.get(userId);
+    const isPast = String(weekId) < getWeekId(new Date(), getUserTimeZone(profile));
+    const goal = isPast
+      ? (await repos.stats.get(userId, weekId))?.goalHours ?? profile?.weeklyGoalHours
+      : goalHours;
+    const stats = await recomputeWeek(userId, weekId, { goalHours: goal, startDate, endDate, streakActive });
+    return NextResponse.json(stats);
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     return NextResponse.json({ error: "Failed to update stats" }, { status: 500 });
   }
 }
 
 export async function GET(request: Request, { params }: { params: { userId: string } }) {
   const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
   try {
-    const statsHash = await redis.hgetall(`user:${userId}:stats`);
-    const stats = statsHash ? Object.values(statsHash) : [];
+    const stats = await repos.stats.list(userId);
     return NextResponse.json(stats);
   } catch (error) {
     return NextResponse.json({ error: "Failed to fetch stats" }, { status: 500 });
@@ -25,6 +46,8 @@ export async function GET(request: Request, { params }: { params: { userId: stri
 
 export async function DELETE(request: Request, { params }: { params: { userId: string } }) {
   const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
   const { searchParams } = new URL(request.url);
   const weekId = searchParams.get('weekId');
   
@@ -33,7 +56,8 @@ export async function DELETE(request: Request, { params }: { params: { userId: s
   }
 
   try {
-    await redis.hdel(`user:${userId}:stats`, weekId);
+    await repos.stats.remove(userId, weekId);
+    await repos.reports.remove(userId, weekId);
     return NextResponse.json({ success: true });
   } catch (error) {
     return NextResponse.json({ error: "Failed to delete stats" }, { status: 500 });
@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+import { recomputeWeekContaining } from '@/lib/weeklyStats';
+import { createEvidence, parseEvidenceItems } from '@/lib/evidence';
+import { ValidationError } from '@/lib/validation';
+import rateLimiter, { RateLimitError } from '@/lib/rateLimit';
+import { checkDuration, stopSegment } from '@/lib/focus';
+import { getLocalDateString, getUserTimeZone } from '@/lib/dates';
+import { recordLimitOverride } from '@/lib/dailyLimit';
+import { reviewAppeal } from '@/services/verifier';
+import { Evidence, Task, VerificationStatus } from '@/types';
+
+const MAX_JUSTIFICATION_LENGTH = 2000;
+
+// Disputes a rejection: REJECTED -> APPEALED -> VERIFIED or REJECTED.
+// Body: { justification, items?: [{ data, mimeType }] }.
+export async function POST(request: Request, { params }: { params: { userId: string, taskId: string } }) {
+  const { userId, taskId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+
+  // Set while the task is saved APPEALED but has no verdict yet, so a failed
+  // review can put it back instead of leaving it stuck
+  let beforeAppeal: Task | null = null;
+  try {
+    const body = await request.json();
+    const justification = body?.justification;
+    if (typeof justification !== 'string' || !justification.trim()) {
+      return NextResponse.json({ error: "A justification is required" }, { status: 400 });
+    }
+    if (justification.length > MAX_JUSTIFICATION_LENGTH) {
+      return NextResponse.json({ error: `Justification must be at most ${MAX_JUSTIFICATION_LENGTH} characters` }, { status: 400 });
+    }
+    const items = parseEvidenceItems(body.items, { min: 0 });
+
+    const task = await repos.tasks.get(userId, taskId);
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+    if (task.status !== VerificationStatus.REJECTED) {
+      return NextResponse.json({ error: "Only rejected tasks can be appealed" }, { status: 409 });
+    }
+    if (task.appeal) {
+      return NextResponse.json({ error: "This rejection was already appealed; upload new proof instead" }, { status: 409 });
+    }
+
+    const rejection = (await repos.verifications.list(userId, taskId)).pop();
+    const originalHashes = rejection?.items?.map(item => item.evidenceHash) || (rejection ? [rejection.evidenceHash] : []);
+    const original: Evidence[] = [];
+    for (const hash of originalHashes) {
+      const evidence = await repos.evidence.get(userId, hash);
+      if (evidence) original.push(evidence);
+    }
+    if (!rejection || original.length === 0) {
+      return NextResponse.json({ error: "The original proof for this rejection is missing" }, { status: 409 });
+    }
+
+    await rateLimiter.consume(userId, 'verification');
+
+    const extra: Evidence[] = [];
+    for (const item of items) {
+      extra.push(await repos.evidence.save(userId, createEvidence(item.data, item.mimeType)));
+    }
+
+    const appeal = { justification: justification.trim(), submittedAt: Date.now() };
+    const timed = stopSegment(task, appeal.submittedAt);
+    const durationCheck = checkDuration(timed);
+    await repos.tasks.save(userId, { ...timed, status: VerificationStatus.APPEALED, appeal });
+    beforeAppeal = timed;
+
+    const result = await reviewAppeal(
+      task.title,
+      task.description,
+      task.rejectionReason || rejection.reason,
+      appeal.justification,
+      [...original, ...extra],
+      durationCheck
+    );
+    const verdict = result.verified ? VerificationStatus.VERIFIED : VerificationStatus.REJECTED;
+    const attempt = await repos.verifications.add(userId, {
+      id: crypto.randomUUID(),
+      taskId,
+      attemptedAt: Date.now(),
+      kind: 'APPEAL',
+      model: result.model,
+      verdict,
+      reason: result.reason,
+      evidenceHash: original[0].hash,
+      justification: appeal.justification,
+      additionalEvidenceHashes: extra.map(evidence => evidence.hash),
+      items: [...original, ...extra].map(e => ({ evidenceHash: e.hash, mimeType: e.mimeType })),
+      durationCheck: durationCheck || undefined,
+    });
+
+    const judged: Task = {
+      ...timed,
+      status: verdict,
+      completedAt: result.verified ? attempt.attemptedAt : undefined,
+      rejectionReason: result.verified ? undefined : result.reason,
+      appeal: { ...appeal, resolvedAt: attempt.attemptedAt, outcome: verdict },
+    };
+    // As in the verify route, won hours land on the day of the verdict
+    const profile = await repos.profiles.get(userId);
+    const timeZone = getUserTimeZone(profile);
+    const updatedTask = await repos.tasks.save(userId, profile && judged.completedAt
+      ? recordLimitOverride(profile, await repos.tasks.list(userId), judged, timeZone, getLocalDateString(judged.completedAt, timeZone))
+      : judged);
+    beforeAppeal = null;
+    // Lost appeals are counted too, so recompute either way
+    await recomputeWeekContaining(userId, attempt.attemptedAt);
+
+    return NextResponse.json({ task: updatedTask, verified: result.verified, reason: result.reason, attempt });
+  } catch (error) {
+    if (beforeAppeal) {
+      await repos.tasks.save(userId, beforeAppeal).catch(restoreError => console.error(restoreError));
+    }
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof RateLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } });
+    }
+    console.error(error);
+    return NextResponse.json({ error: "Failed to review appeal" }, { status: 500 });
+  }
+}
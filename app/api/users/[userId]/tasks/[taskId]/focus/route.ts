@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+import { getUserTimeZone } from '@/lib/dates';
+import { recordLimitOverride } from '@/lib/dailyLimit';
+import { runningSegment, startSegment, stopSegment, trackedDuration } from '@/lib/focus';
+import { ValidationError } from '@/lib/validation';
+import { Task, VerificationStatus } from '@/types';
+
+// Starts or stops the focus timer on a task. Body: { action: 'start', mode:
+// 'POMODORO' | 'FREE' } or { action: 'stop' }. Times come from the server
+// clock. Only one timer runs at a time, so starting one stops any other.
+// Stopping sets durationHours to the tracked time, which the user can still edit.
+// Tracked time was already spent, so it isn't refused for going over the daily
+// limit; the override is recorded instead.
+export async function POST(request: Request, { params }: { params: { userId: string, taskId: string } }) {
+  const { userId, taskId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    if (body?.action !== 'start' && body?.action !== 'stop') {
+      return NextResponse.json({ error: "action must be start or stop" }, { status: 400 });
+    }
+    if (body.action === 'start' && body.mode !== 'POMODORO' && body.mode !== 'FREE') {
+      return NextResponse.json({ error: "mode must be POMODORO or FREE" }, { status: 400 });
+    }
+
+    const task = await repos.tasks.get(userId, taskId);
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+    const now = Date.now();
+    const profile = await repos.profiles.get(userId);
+    const tasks = await repos.tasks.list(userId);
+    const stopTimer = (running: Task) => {
+      const closed = stopSegment(running, now);
+      const timed = { ...closed, durationHours: trackedDuration(closed, now) ?? running.durationHours };
+      return repos.tasks.save(userId, profile ? recordLimitOverride(profile, tasks, timed, getUserTimeZone(profile)) : timed);
+    };
+
+    if (body.action === 'stop') {
+      if (!runningSegment(task)) {
+        return NextResponse.json({ error: "No timer is running on this task" }, { status: 409 });
+      }
+      return NextResponse.json({ task: await stopTimer(task), stopped: [] });
+    }
+
+    if (task.status !== VerificationStatus.PENDING && task.status !== VerificationStatus.REJECTED) {
+      return NextResponse.json({ error: "Only open tasks can be timed" }, { status: 409 });
+    }
+    const stopped = [];
+    for (const other of tasks) {
+      if (other.id !== taskId && runningSegment(other)) stopped.push(await stopTimer(other));
+    }
+    const updatedTask = await repos.tasks.save(userId, startSegment(task, body.mode, now));
+    return NextResponse.json({ task: updatedTask, stopped });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(error);
+    return NextResponse.json({ error: "Failed to update focus timer" }, { status: 500 });
+  }
+}
@@ -1,10 +1,19 @@
 import { NextResponse } from 'next/server';
-import redis from '@/lib/redis';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+import { recomputeWeekContaining } from '@/lib/weeklyStats';
+import { VerificationStatus } from '@/types';
 
 export async function DELETE(request: Request, { params }: { params: { userId: string, taskId: string } }) {
   const { userId, taskId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
   try {
-    await redis.hdel(`user:${userId}:tasks`, taskId);
+    const task = await repos.tasks.get(userId, taskId);
+    await repos.tasks.remove(userId, taskId);
+    if (task?.status === VerificationStatus.VERIFIED && task.completedAt) {
+      await recomputeWeekContaining(userId, task.completedAt);
+    }
     return NextResponse.json({ success: true });
   } catch (error) {
     return NextResponse.json({ error: "Failed to delete task" }, { status: 500 });
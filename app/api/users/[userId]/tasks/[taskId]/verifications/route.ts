@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+
+// Every verification attempt for the task, oldest first
+export async function GET(request: Request, { params }: { params: { userId: string, taskId: string } }) {
+  const { userId, taskId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const attempts = await repos.verifications.list(userId, taskId);
+    return NextResponse.json(attempts);
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Failed to fetch verification history" }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+import { recomputeWeekContaining } from '@/lib/weeklyStats';
+import { createEvidence, parseEvidenceItems } from '@/lib/evidence';
+import { ValidationError } from '@/lib/validation';
+import rateLimiter, { RateLimitError } from '@/lib/rateLimit';
+import { checkDuration, stopSegment } from '@/lib/focus';
+import { getLocalDateString, getUserTimeZone } from '@/lib/dates';
+import { recordLimitOverride } from '@/lib/dailyLimit';
+import { verifyTaskEvidence } from '@/services/verifier';
+import { VerificationStatus } from '@/types';
+
+// Along with the appeal route, the only code path allowed to mark a task
+// VERIFIED and stamp its completedAt. Body: { items: [{ data, mimeType }] }.
+export async function POST(request: Request, { params }: { params: { userId: string, taskId: string } }) {
+  const { userId, taskId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+
+  try {
+    const items = parseEvidenceItems((await request.json())?.items);
+
+    const task = await repos.tasks.get(userId, taskId);
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+    if (task.status === VerificationStatus.VERIFIED) {
+      return NextResponse.json({ error: "Task is already verified" }, { status: 409 });
+    }
+    if (task.status === VerificationStatus.APPEALED) {
+      return NextResponse.json({ error: "Task has an appeal under review" }, { status: 409 });
+    }
+
+    await rateLimiter.consume(userId, 'verification');
+
+    // Keep the proof and the verdict so past hours can be audited later
+    const evidence = [];
+    for (const item of items) {
+      evidence.push(await repos.evidence.save(userId, createEvidence(item.data, item.mimeType)));
+    }
+    // Submitting proof ends any timer still running on the task
+    const timed = stopSegment(task, Date.now());
+    const durationCheck = checkDuration(timed);
+    const result = await verifyTaskEvidence(task.title, task.description, evidence, durationCheck);
+    const attempt = await repos.verifications.add(userId, {
+      id: crypto.randomUUID(),
+      taskId,
+      attemptedAt: Date.now(),
+      kind: 'VERIFICATION',
+      model: result.model,
+      verdict: result.verified ? VerificationStatus.VERIFIED : VerificationStatus.REJECTED,
+      reason: result.reason,
+      evidenceHash: evidence[0].hash,
+      items: evidence.map((e, index) => ({ evidenceHash: e.hash, mimeType: e.mimeType, note: result.notes[index] || undefined })),
+      durationCheck: durationCheck || undefined,
+    });
+
+    const judged = {
+      ...timed,
+      status: result.verified ? VerificationStatus.VERIFIED : VerificationStatus.REJECTED,
+      completedAt: result.verified ? attempt.attemptedAt : undefined,
+      rejectionReason: result.verified ? undefined : result.reason,
+      // New proof means a new verdict, which hasn't been appealed yet
+      appeal: undefined,
+    };
+    // Verified hours count on the day they were completed, whatever day the
+    // task was planned for; going over that day's limit records the override
+    const profile = await repos.profiles.get(userId);
+    const timeZone = getUserTimeZone(profile);
+    const updatedTask = await repos.tasks.save(userId, profile && judged.completedAt
+      ? recordLimitOverride(profile, await repos.tasks.list(userId), judged, timeZone, getLocalDateString(judged.completedAt, timeZone))
+      : judged);
+    if (updatedTask.completedAt) {
+      await recomputeWeekContaining(userId, updatedTask.completedAt);
+    }
+
+    return NextResponse.json({ task: updatedTask, verified: result.verified, reason: result.reason, attempt });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof RateLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } });
+    }
+    console.error(error);
+    return NextResponse.json({ error: "Failed to verify task" }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+import { getLocalDateString, getUserTimeZone } from '@/lib/dates';
+import { parseQuickAdd } from '@/lib/quickAdd';
+import { resolveCategories } from '@/lib/categories';
+import { assistQuickAdd } from '@/services/geminiService';
+
+const MAX_TEXT_LENGTH = 500;
+
+// Parses quick-add text into a draft task without saving it. Body:
+// { text, assist? }; with "assist" the model fills in fields the grammar missed.
+export async function POST(request: Request, { params }: { params: { userId: string } }) {
+  const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const body = await request.json();
+    const text = body?.text;
+    if (typeof text !== 'string' || !text.trim()) {
+      return NextResponse.json({ error: "Text is required" }, { status: 400 });
+    }
+    if (text.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json({ error: `Text must be at most ${MAX_TEXT_LENGTH} characters` }, { status: 400 });
+    }
+
+    const profile = await repos.profiles.get(userId);
+    const today = getLocalDateString(Date.now(), getUserTimeZone(profile));
+    const categories = resolveCategories(profile);
+    const parsed = parseQuickAdd(text, today, categories);
+    const draft = body.assist === true ? await assistQuickAdd(userId, text, today, parsed, categories) : parsed;
+
+    return NextResponse.json({ draft, assisted: draft !== parsed });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Failed to parse task" }, { status: 500 });
+  }
+}
@@ -1,22 +1,93 @@
 import { NextResponse } from 'next/server';
-import redis from '@/lib/redis';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+import { getUserTimeZone } from '@/lib/dates';
+import { checkDailyLimit, describeBreach, keepLimitOverride, resolveDailyLimitPolicy } from '@/lib/dailyLimit';
+import { ValidationError, parseTask } from '@/lib/validation';
+import { VerificationStatus } from '@/types';
 
+const MAX_JUSTIFICATION_LENGTH = 500;
+
+// Fields a verification verdict was based on
+const VERDICT_FIELDS = ['title', 'description', 'categoryId', 'durationHours'] as const;
+
+// Creates or updates a task. A task that takes its day past the daily limit
+// is handled by the user's policy: WARN saves it with a warning, BLOCK refuses
+// with 409, and JUSTIFY refuses unless the body carries limitJustification.
+// Saved overrides are recorded on the task.
 export async function POST(request: Request, { params }: { params: { userId: string } }) {
   const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
   try {
     const task = await request.json();
-    await redis.hset(`user:${userId}:tasks`, { [task.id]: task });
-    return NextResponse.json({ success: true });
+
+    // Status, completedAt, rejectionReason and appeal are owned by the verify
+    // and appeal routes, focusSegments by the focus route. createdAt comes
+    // from the server clock, since it places an unplanned task's load.
+    const existing = task?.id ? await repos.tasks.get(userId, String(task.id)) : null;
+    const status = existing ? existing.status : VerificationStatus.PENDING;
+    if (task.projectId && !(await repos.projects.get(userId, String(task.projectId)))) {
+      return NextResponse.json({ error: "Project not found" }, { status: 400 });
+    }
+    if (task.status !== undefined && task.status !== status) {
+      return NextResponse.json({ error: "Task status can only be changed through verification" }, { status: 400 });
+    }
+    // A verdict covers what the task claimed; changing the claim afterwards
+    // would change the verified hours without new proof
+    if (existing && (status === VerificationStatus.VERIFIED || status === VerificationStatus.APPEALED) &&
+        VERDICT_FIELDS.some(field => task[field] !== existing[field])) {
+      return NextResponse.json({ error: `A ${status.toLowerCase()} task's ${VERDICT_FIELDS.join(', ')} can't be changed` }, { status: 409 });
+    }
+    const justification = typeof task.limitJustification === 'string' ? task.limitJustification.trim() : '';
+    if (justification.length > MAX_JUSTIFICATION_LENGTH) {
+      return NextResponse.json({ error: `Justification must be at most ${MAX_JUSTIFICATION_LENGTH} characters` }, { status: 400 });
+    }
+
+    const candidate = parseTask({
+      ...task,
+      status,
+      createdAt: existing ? existing.createdAt : Date.now(),
+      completedAt: existing?.completedAt,
+      rejectionReason: existing?.rejectionReason,
+      appeal: existing?.appeal,
+      focusSegments: existing?.focusSegments,
+      limitOverride: existing?.limitOverride,
+    });
+
+    const profile = await repos.profiles.get(userId);
+    const tasks = await repos.tasks.list(userId);
+    const timeZone = getUserTimeZone(profile);
+    const breach = profile ? checkDailyLimit(profile, tasks, candidate, timeZone) : null;
+    // An earlier override only stays while its day is still over the limit
+    let limitOverride = profile ? keepLimitOverride(profile, tasks, candidate, timeZone) : undefined;
+    if (breach) {
+      const { enforcement } = resolveDailyLimitPolicy(profile);
+      if (enforcement === 'BLOCK') {
+        return NextResponse.json({ error: describeBreach(breach), limit: breach }, { status: 409 });
+      }
+      if (enforcement === 'JUSTIFY' && !justification) {
+        return NextResponse.json({ error: `${describeBreach(breach)} A justification is required.`, limit: breach, requiresJustification: true }, { status: 409 });
+      }
+      limitOverride = { ...breach, enforcement, justification: justification || undefined, recordedAt: Date.now() };
+    }
+
+    const saved = await repos.tasks.save(userId, { ...candidate, limitOverride });
+    return NextResponse.json({ success: true, task: saved, warning: breach ? describeBreach(breach) : undefined });
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     return NextResponse.json({ error: "Failed to add task" }, { status: 500 });
   }
 }
 
 export async function GET(request: Request, { params }: { params: { userId: string } }) {
   const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
   try {
-    const tasksHash = await redis.hgetall(`user:${userId}:tasks`);
-    const tasks = tasksHash ? Object.values(tasksHash) : [];
+    const tasks = await repos.tasks.list(userId);
     return NextResponse.json(tasks);
   } catch (error) {
     return NextResponse.json({ error: "Failed to fetch tasks" }, { status: 500 });
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+
+// Stops future occurrences. Tasks already created from the template are kept.
+export async function DELETE(request: Request, { params }: { params: { userId: string, templateId: string } }) {
+  const { userId, templateId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    await repos.templates.remove(userId, templateId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Failed to delete template" }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+import { materialiseTemplates } from '@/lib/templates';
+import { getLocalDateString, getUserTimeZone } from '@/lib/dates';
+import { ValidationError, parseTaskTemplate } from '@/lib/validation';
+
+export async function GET(request: Request, { params }: { params: { userId: string } }) {
+  const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const templates = await repos.templates.list(userId);
+    return NextResponse.json(templates);
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Failed to fetch templates" }, { status: 500 });
+  }
+}
+
+// Creates or updates a template, then creates today's occurrence if it is due.
+// Tasks already created from it are left alone. A changed schedule counts
+// from today, so "every N days" doesn't jump back to the original start.
+// Responds with { template, created } so the task list can add new tasks.
+export async function POST(request: Request, { params }: { params: { userId: string } }) {
+  const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
+  try {
+    const input = parseTaskTemplate(await request.json());
+    if (input.projectId && !(await repos.projects.get(userId, input.projectId))) {
+      return NextResponse.json({ error: "Project not found" }, { status: 400 });
+    }
+
+    const existing = await repos.templates.get(userId, input.id);
+    const today = getLocalDateString(Date.now(), getUserTimeZone(await repos.profiles.get(userId)));
+    const startDate = existing && existing.rrule !== input.rrule && input.startDate < today ? today : input.startDate;
+    // Only the server records runs
+    const template = await repos.templates.save(userId, { ...input, startDate, lastRunDate: existing?.lastRunDate });
+
+    const { created } = await materialiseTemplates(userId);
+    return NextResponse.json({ template: (await repos.templates.get(userId, template.id)) || template, created });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(error);
+    return NextResponse.json({ error: "Failed to save template" }, { status: 500 });
+  }
+}
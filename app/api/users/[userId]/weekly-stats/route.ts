@@ -1,48 +1,40 @@
 import { NextResponse } from 'next/server';
-import redis from '@/lib/redis';
-
-const getWeekIdFromDate = (date: Date) => {
-  const d = new Date(date);
-  d.setHours(0, 0, 0, 0);
-  d.setDate(d.getDate() + 4 - (d.getDay() || 7));
-  const yearStart = new Date(d.getFullYear(), 0, 1);
-  const weekNo = Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
-  return `${d.getFullYear()}-W${String(weekNo).padStart(2, '0')}`;
-};
+import repos from '@/lib/repositories';
+import { authorizeUser } from '@/lib/session';
+import { getUserTimeZone, getWeekId, getWeekIdFromDateString } from '@/lib/dates';
+import { recomputeWeek } from '@/lib/weeklyStats';
 
 export async function GET(request: Request, { params }: { params: { userId: string } }) {
   const { userId } = params;
+  const denied = await authorizeUser(userId);
+  if (denied) return denied;
   const { searchParams } = new URL(request.url);
-  const weekId = searchParams.get('weekId') || getWeekIdFromDate(new Date());
 
   try {
-    // Fetch stats
-    const statsHash = await redis.hgetall(`user:${userId}:stats`);
-    const allStats = statsHash ? Object.values(statsHash) : [];
-    const weekStats = allStats.find((s: any) => s.weekId === weekId) || null;
+    const profile = await repos.profiles.get(userId);
+    const timeZone = getUserTimeZone(profile);
+    const weekId = searchParams.get('weekId') || getWeekId(Date.now(), timeZone);
+
+    // Fetch stats, re-deriving hours from tasks and screentime
+    const weekStats = await recomputeWeek(userId, weekId);
 
     // Fetch tasks
-    const tasksHash = await redis.hgetall(`user:${userId}:tasks`);
-    const allTasks = tasksHash ? Object.values(tasksHash) : [];
+    const allTasks = await repos.tasks.list(userId);
     
     // Filter tasks for the specific week
-    const weekTasks = allTasks.filter((task: any) => {
+    const weekTasks = allTasks.filter(task => {
       if (!task.completedAt) return false;
-      return getWeekIdFromDate(new Date(task.completedAt)) === weekId;
+      return getWeekId(task.completedAt, timeZone) === weekId;
     });
 
     // Sort tasks by completion date (newest first)
-    weekTasks.sort((a: any, b: any) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime());
+    weekTasks.sort((a, b) => (b.completedAt || 0) - (a.completedAt || 0));
 
     // Fetch screentime
-    const screentimeHash = await redis.hgetall(`user:${userId}:screentime`);
-    const allScreentime = screentimeHash ? Object.values(screentimeHash) : [];
+    const allScreentime = await repos.screentime.list(userId);
     
     // Filter screentime for the specific week
-    const weekScreentime = allScreentime.filter((st: any) => {
-      if (!st.date) return false;
-      return getWeekIdFromDate(new Date(st.date)) === weekId;
-    });
+    const weekScreentime = allScreentime.filter(st => getWeekIdFromDateString(st.date) === weekId);
 
     const responseData = {
       weekId,
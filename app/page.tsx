@@ -5,24 +5,19 @@ import { Sidebar } from '../components/Sidebar';
 const Dashboard = dynamic(() => import('../components/Dashboard').then(mod => mod.Dashboard), { ssr: false });
 import { TaskList } from '../components/TaskList';
 import { ScreenTimeUpload } from '../components/ScreenTimeUpload';
+import { RatingPolicyEditor } from '../components/RatingPolicyEditor';
+import { CategoryEditor } from '../components/CategoryEditor';
+import { DailyLimitEditor } from '../components/DailyLimitEditor';
+const Projects = dynamic(() => import('../components/Projects').then(mod => mod.Projects), { ssr: false });
 const History = dynamic(() => import('../components/History').then(mod => mod.History), { ssr: false });
 import { Auth } from '../components/Auth';
 import { Icons } from '../components/Icons';
-import { UserProfile, WeeklyStats, Task, HistoryEntry, VerificationStatus, ScreenTimeEntry } from '../types';
-import { calculateWeeklyRating } from '../services/geminiService';
+import { UserProfile, WeeklyStats, Task, HistoryEntry, VerificationStatus, ScreenTimeEntry, CoachingReport, Project, TaskTemplate } from '../types';
 import { useSession, signOut } from 'next-auth/react';
+import { resolveCategories } from '../lib/categories';
+import { getBrowserTimeZone, getLocalDateString, getUserTimeZone, getWeekDateRange, getWeekId } from '../lib/dates';
 
-// --- DATE HELPERS ---
-const getWeekIdFromDate = (date: Date) => {
-  const d = new Date(date);
-  d.setHours(0, 0, 0, 0);
-  d.setDate(d.getDate() + 4 - (d.getDay() || 7));
-  const yearStart = new Date(d.getFullYear(), 0, 1);
-  const weekNo = Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
-  return `${d.getFullYear()}-W${String(weekNo).padStart(2, '0')}`;
-};
-
-const getCurrentWeekId = () => getWeekIdFromDate(new Date());
+const getCurrentWeekId = (timeZone: string) => getWeekId(Date.now(), timeZone);
 
 const App: React.FC = () => {
   const { data: session, status } = useSession();
@@ -35,6 +30,9 @@ const App: React.FC = () => {
   const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [screentime, setScreentime] = useState<ScreenTimeEntry[]>([]);
+  const [reports, setReports] = useState<CoachingReport[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [fetchError, setFetchError] = useState<string | null>(null);
 
@@ -53,7 +51,9 @@ const App: React.FC = () => {
         avatarUrl: session.user.image || '',
         googleId: googleId,
         weeklyGoalHours: 80,
-        currentStreak: 0
+        currentStreak: 0,
+        longestStreak: 0,
+        timezone: getBrowserTimeZone()
       };
       setUser(userData);
       setIsAuthenticated(true);
@@ -77,7 +77,17 @@ const App: React.FC = () => {
       const data = await res.json();
 
       // Set Profile
-      if (data.profile) {
+      let profile: UserProfile = data.profile || defaultUser;
+      if (data.profile && !data.profile.timezone) {
+        // Older profiles predate per-user time zones; adopt the browser's
+        profile = { ...data.profile, timezone: getBrowserTimeZone() };
+        await fetch(`/api/users/${googleId}/profile`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ timezone: profile.timezone })
+        });
+        setUser(profile);
+      } else if (data.profile) {
         setUser(data.profile);
       } else {
         // Create profile if missing
@@ -97,8 +107,16 @@ const App: React.FC = () => {
       // Set Screentime
       setScreentime(data.screentime || []);
 
+      // Set Reports
+      setReports(data.reports || []);
+
+      // Set Projects
+      setProjects(data.projects || []);
+      setTemplates(data.templates || []);
+
       // Set Stats
-      const currentWeekId = getCurrentWeekId();
+      const timeZone = getUserTimeZone(profile);
+      const currentWeekId = getCurrentWeekId(timeZone);
       const allStats = data.stats || [];
       let currentStatsObj = allStats.find((s: WeeklyStats) => s.weekId === currentWeekId);
       
@@ -110,32 +128,22 @@ const App: React.FC = () => {
         setStats(currentStatsObj);
       } else {
         // Initialize current week
-        const now = new Date();
-        const currentDay = now.getDay(); 
-        const distanceToMonday = currentDay === 0 ? 6 : currentDay - 1;
-        const monday = new Date(now);
-        monday.setDate(now.getDate() - distanceToMonday);
-        monday.setHours(0, 0, 0, 0);
-        const nextMonday = new Date(monday);
-        nextMonday.setDate(monday.getDate() + 7);
-
         currentStatsObj = {
           weekId: currentWeekId,
-          startDate: monday.toLocaleDateString(),
-          endDate: new Date(nextMonday.getTime() - 1).toLocaleDateString(),
+          ...getWeekDateRange(currentWeekId, timeZone),
           goalHours: data.profile?.weeklyGoalHours || 80,
           completedHours: 0,
           screenTimeHours: 0,
           rating: 0,
-          streakActive: true,
-          userId: googleId
+          streakActive: true
         };
         setStats(currentStatsObj);
-        await fetch(`/api/users/${googleId}/stats`, {
+        const statsRes = await fetch(`/api/users/${googleId}/stats`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify(currentStatsObj)
         });
+        if (statsRes.ok) setStats(await statsRes.json());
       }
     } catch (err: any) {
       console.error(err);
@@ -145,6 +153,19 @@ const App: React.FC = () => {
     }
   };
 
+  const handleGenerateReport = async (weekId: string) => {
+    if (!user) return;
+    try {
+      const res = await fetch(`/api/users/${user.googleId}/reports/${weekId}`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to write report");
+      setReports(prev => [...prev.filter(r => r.weekId !== weekId), data]);
+    } catch (error) {
+      console.error(error);
+      alert(`Failed to write report: ${(error as Error).message}`);
+    }
+  };
+
   const handleDeleteHistory = async (weekId: string) => {
     if (!user) return;
     if (!window.confirm(`Are you sure you want to delete the history for week ${weekId}? This cannot be undone.`)) return;
@@ -155,6 +176,7 @@ const App: React.FC = () => {
       });
       if (res.ok) {
         setHistory(prev => prev.filter(h => h.weekId !== weekId));
+        setReports(prev => prev.filter(r => r.weekId !== weekId));
       } else {
         alert("Failed to delete history entry.");
       }
@@ -168,6 +190,23 @@ const App: React.FC = () => {
     signOut();
   };
 
+  const handleDeleteAccount = async () => {
+    if (!user) return;
+    try {
+      const res = await fetch(`/api/users/${user.googleId}`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ confirm: 'DELETE' })
+      });
+      if (!res.ok) throw new Error((await res.json()).error || "Delete failed");
+      // The server already removed every session; this clears the cookie
+      await signOut();
+    } catch (error) {
+      console.error(error);
+      alert("Failed to delete account.");
+    }
+  };
+
   const updateWeeklyGoal = async (newGoal: number) => {
     if (!user) return;
     const updatedUser = { ...user, weeklyGoalHours: newGoal };
@@ -177,72 +216,77 @@ const App: React.FC = () => {
     await fetch(`/api/users/${user.googleId}/profile`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(updatedUser)
+      body: JSON.stringify({ weeklyGoalHours: newGoal })
     });
     
     if (stats) {
-        const updatedStats = { ...stats, goalHours: newGoal };
-        setStats(updatedStats);
-        await fetch(`/api/users/${user.googleId}/stats`, {
+        setStats({ ...stats, goalHours: newGoal });
+        const res = await fetch(`/api/users/${user.googleId}/stats`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(updatedStats)
+          body: JSON.stringify({ ...stats, goalHours: newGoal })
         });
+        if (res.ok) setStats(await res.json());
     }
   };
 
-  const updateCompletedHours = async (hoursToAdd: number) => {
-     if (!user || !stats) return;
-
-     const newCompleted = stats.completedHours + hoursToAdd;
-     const newRating = await calculateWeeklyRating(
-       newCompleted, 
-       stats.goalHours, 
-       stats.screenTimeHours
-     );
-
-     const updatedStats = { ...stats, completedHours: newCompleted, rating: newRating };
-     setStats(updatedStats);
-     
-     await fetch(`/api/users/${user.googleId}/stats`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(updatedStats)
-    });
+  // Hours and rating are derived on the server; just re-read the current week.
+  const refreshStats = async () => {
+    if (!user) return;
+    try {
+      const res = await fetch(`/api/users/${user.googleId}/weekly-stats?weekId=${getCurrentWeekId(getUserTimeZone(user))}`);
+      if (!res.ok) throw new Error("Failed to refresh weekly stats");
+      const data = await res.json();
+      if (data.stats) setStats(data.stats);
+    } catch (error) {
+      console.error(error);
+    }
   };
 
   const handleScreenTimeSubmit = async (hours: number) => {
-     if (!user || !stats) return;
-
-     const newScreenTime = stats.screenTimeHours + hours;
-     const newRating = await calculateWeeklyRating(
-       stats.completedHours, 
-       stats.goalHours, 
-       newScreenTime
-     );
-
-     const updatedStats = { ...stats, screenTimeHours: newScreenTime, rating: newRating };
-     setStats(updatedStats);
-
-     // Update total stats
-     await fetch(`/api/users/${user.googleId}/stats`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(updatedStats)
-    });
+    if (!user) return;
 
     // Store individual screen time entry
-    const entry = {
-      date: new Date().toISOString().split('T')[0],
+    const entry: ScreenTimeEntry = {
+      date: getLocalDateString(Date.now(), getUserTimeZone(user)),
       hours,
       submittedAt: Date.now()
     };
+    setScreentime(prev => [...prev, entry]);
 
     await fetch(`/api/users/${user.googleId}/screentime`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(entry)
     });
+    await refreshStats();
+  };
+
+  const handleImport = async (file: File) => {
+    if (!user) return;
+    try {
+      const res = await fetch(`/api/users/${user.googleId}/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: await file.text()
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Import failed");
+
+      alert(
+        `Import complete.\n` +
+        `Tasks: ${data.tasks.added} added, ${data.tasks.remapped} renumbered, ${data.tasks.skipped} already present\n` +
+        `Weeks: ${data.stats.added} added, ${data.stats.skipped} kept\n` +
+        `Screen time days: ${data.screentime.added} added, ${data.screentime.skipped} kept\n` +
+        `Projects: ${data.projects.added} added, ${data.projects.remapped} renumbered, ${data.projects.skipped} already present\n` +
+        `Recurring tasks: ${data.templates.added} added, ${data.templates.remapped} renumbered, ${data.templates.skipped} already present\n` +
+        `Profile: ${data.profile}`
+      );
+      await fetchUserData(user.googleId!, user);
+    } catch (error) {
+      console.error(error);
+      alert(`Failed to import data: ${(error as Error).message}`);
+    }
   };
 
   if (status === "loading" || (isLoading && !user)) {
@@ -292,6 +336,8 @@ const App: React.FC = () => {
         setView={setCurrentView} 
         onLogout={handleLogout}
         onUpdateGoal={updateWeeklyGoal}
+        onImport={handleImport}
+        onDeleteAccount={handleDeleteAccount}
       />
       
       <main className="flex-1 md:ml-64 p-4 md:p-8 overflow-y-auto h-screen">
@@ -306,9 +352,17 @@ const App: React.FC = () => {
           ) : (
             <>
               {currentView === 'dashboard' && stats && <Dashboard user={user} stats={stats} tasks={tasks} screentime={screentime} />}
-              {currentView === 'tasks' && <TaskList tasks={tasks} setTasks={setTasks} user={user} updateCompletedHours={updateCompletedHours} />}
+              {currentView === 'tasks' && <TaskList tasks={tasks} setTasks={setTasks} projects={projects} templates={templates} setTemplates={setTemplates} user={user} refreshStats={refreshStats} />}
+              {currentView === 'projects' && <Projects user={user} projects={projects} tasks={tasks} setProjects={setProjects} setTasks={setTasks} />}
               {currentView === 'screentime' && <ScreenTimeUpload user={user} onSubmit={handleScreenTimeSubmit} />}
-              {currentView === 'history' && stats && <History history={[...history, { ...stats, id: 'current' } as HistoryEntry]} tasks={tasks} screentime={screentime} onDeleteHistory={handleDeleteHistory} userId={user?.googleId} />}
+              {currentView === 'history' && stats && <History history={[...history, { ...stats, id: 'current' } as HistoryEntry]} tasks={tasks} screentime={screentime} reports={reports} categories={resolveCategories(user)} onDeleteHistory={handleDeleteHistory} onGenerateReport={handleGenerateReport} userId={user?.googleId} timeZone={getUserTimeZone(user)} bestStreak={user.longestStreak || 0} />}
+              {currentView === 'settings' && (
+                <div className="space-y-6">
+                  <RatingPolicyEditor user={user} onSaved={() => fetchUserData(user.googleId!, user)} />
+                  <CategoryEditor user={user} tasks={tasks} onSaved={() => fetchUserData(user.googleId!, user)} />
+                  <DailyLimitEditor user={user} onSaved={() => fetchUserData(user.googleId!, user)} />
+                </div>
+              )}
             </>
           )}
         </div>
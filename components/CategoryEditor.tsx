@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { Icons } from './Icons';
+import { Task, TaskCategory, UserProfile } from '../types';
+import { CATEGORY_ICONS, CategoryIcon, MAX_CATEGORIES, createCategoryId, resolveCategories } from '../lib/categories';
+
+interface CategoryEditorProps {
+  user: UserProfile;
+  tasks: Task[];
+  onSaved: () => void;
+}
+
+// Colours offered to new categories, in order
+const PALETTE = ['#f472b6', '#fb923c', '#facc15', '#4ade80', '#38bdf8', '#a78bfa', '#f87171', '#94a3b8'];
+
+export const CategoryEditor: React.FC<CategoryEditorProps> = ({ user, tasks, onSaved }) => {
+  const saved = resolveCategories(user);
+  const [categories, setCategories] = useState<TaskCategory[]>(saved);
+  const [reassign, setReassign] = useState<Record<string, string>>({});
+  const [newName, setNewName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const taskCount = (id: string) => tasks.filter(t => t.categoryId === id).length;
+  // Removed categories that still have tasks, which must move somewhere
+  const removedInUse = saved.filter(c => !categories.some(k => k.id === c.id) && taskCount(c.id) > 0);
+
+  const update = (id: string, changes: Partial<TaskCategory>) => {
+    setCategories(prev => prev.map(c => c.id === id ? { ...c, ...changes } : c));
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name || categories.length >= MAX_CATEGORIES) return;
+    setCategories(prev => [...prev, {
+      id: createCategoryId(name, [...saved, ...prev].map(c => c.id)),
+      name,
+      color: PALETTE[prev.length % PALETTE.length],
+      icon: 'Tag',
+    }]);
+    setNewName('');
+  };
+
+  const handleRemove = (id: string) => {
+    setCategories(prev => prev.filter(c => c.id !== id));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const target = (id: string) => reassign[id] && categories.some(c => c.id === reassign[id]) ? reassign[id] : categories[0].id;
+      const res = await fetch(`/api/users/${user.googleId}/categories`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          categories,
+          // Sent for every removed category: recurring templates may use one without tasks
+          reassign: Object.fromEntries(saved.filter(c => !categories.some(k => k.id === c.id)).map(c => [c.id, target(c.id)])),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save categories');
+      alert("Categories saved.");
+      onSaved();
+    } catch (error) {
+      alert((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900 p-6 rounded-2xl border border-slate-800">
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-lg font-semibold text-white">Task Categories</h3>
+        <span className="text-xs text-slate-500">{categories.length} / {MAX_CATEGORIES}</span>
+      </div>
+
+      <div className="space-y-3">
+        {categories.map(category => {
+          const Icon = Icons[category.icon as CategoryIcon] || Icons.Tag;
+          return (
+            <div key={category.id} className="flex flex-wrap items-center gap-3 bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+              <Icon className="w-5 h-5 shrink-0" style={{ color: category.color }} />
+              <input
+                type="text"
+                value={category.name}
+                onChange={(e) => update(category.id, { name: e.target.value })}
+                className="flex-1 min-w-[8rem] bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500"
+              />
+              <input
+                type="color"
+                value={category.color}
+                onChange={(e) => update(category.id, { color: e.target.value })}
+                className="w-9 h-9 bg-transparent border border-slate-700 rounded cursor-pointer"
+                title="Colour"
+              />
+              <select
+                value={category.icon}
+                onChange={(e) => update(category.id, { icon: e.target.value })}
+                className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500"
+                title="Icon"
+              >
+                {CATEGORY_ICONS.map(icon => <option key={icon} value={icon}>{icon}</option>)}
+              </select>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={category.weeklyTargetHours ?? ''}
+                onChange={(e) => update(category.id, { weeklyTargetHours: e.target.value ? parseFloat(e.target.value) : undefined })}
+                placeholder="No target"
+                className="w-28 bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500"
+                title="Weekly target (hours)"
+              />
+              <button
+                onClick={() => handleRemove(category.id)}
+                disabled={categories.length === 1}
+                className="text-slate-500 hover:text-red-400 p-1 rounded hover:bg-slate-800 disabled:opacity-30"
+                title="Remove category"
+              >
+                <Icons.Trash className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {removedInUse.length > 0 && (
+        <div className="mt-4 space-y-2 text-sm bg-amber-950/20 border border-amber-900/50 rounded-lg p-3">
+          {removedInUse.map(category => (
+            <div key={category.id} className="flex flex-wrap items-center gap-2 text-amber-300">
+              <span>{taskCount(category.id)} task{taskCount(category.id) === 1 ? '' : 's'} in {category.name} move to</span>
+              <select
+                value={reassign[category.id] || categories[0]?.id}
+                onChange={(e) => setReassign(prev => ({ ...prev, [category.id]: e.target.value }))}
+                className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-white focus:outline-none focus:border-indigo-500"
+              >
+                {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="flex gap-3 mt-4">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New category, e.g. Reading"
+          className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim() || categories.length >= MAX_CATEGORIES}
+          className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-200 text-sm font-medium disabled:opacity-50 flex items-center gap-1"
+        >
+          <Icons.Plus className="w-4 h-4" /> Add
+        </button>
+      </form>
+
+      <p className="text-[11px] text-slate-500 mt-3">
+        A weekly target makes the balance part of your rating count progress towards each target instead of an even split.
+      </p>
+
+      <div className="flex gap-3 mt-6">
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium disabled:opacity-50 flex items-center gap-2"
+        >
+          {isSaving && <Icons.Loader className="w-4 h-4 animate-spin" />}
+          Save categories
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Icons } from './Icons';
+import { CoachingReport as CoachingReportData, TaskCategory } from '../types';
+import { getCategory } from '../lib/categories';
+import { getDayIndexFromDateString } from '../lib/dates';
+
+interface CoachingReportProps {
+  report?: CoachingReportData;
+  closed: boolean;
+  categories: TaskCategory[];
+  onGenerate?: () => Promise<void>;
+}
+
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+export const CoachingReport: React.FC<CoachingReportProps> = ({ report, closed, categories, onGenerate }) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleGenerate = async () => {
+    if (!onGenerate) return;
+    setIsGenerating(true);
+    try {
+      await onGenerate();
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  if (!report) {
+    return (
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-slate-500 italic">
+          {closed ? 'No report was written for this week.' : 'A report is written when the week closes.'}
+        </p>
+        {closed && onGenerate && (
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating}
+            className="px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-medium disabled:opacity-50 flex items-center gap-2"
+          >
+            {isGenerating && <Icons.Loader className="w-3 h-3 animate-spin" />}
+            Write report
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-300 leading-relaxed">{report.retrospective}</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs">
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+          <p className="text-slate-500 mb-1">Recommended goal</p>
+          <p className="text-white font-bold text-lg">{report.recommendedGoalHours}h</p>
+        </div>
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+          <p className="text-slate-500 mb-1">Weakest day</p>
+          <p className="text-white font-bold text-lg">{WEEKDAYS[getDayIndexFromDateString(report.weakestDay)]}</p>
+        </div>
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+          <p className="text-slate-500 mb-1">Slipped</p>
+          <p className={`font-bold text-lg ${report.slippedCategories.length > 0 ? 'text-orange-400' : 'text-green-400'}`}>
+            {report.slippedCategories.length > 0 ? report.slippedCategories.map(id => getCategory(categories, id).name).join(', ') : 'Nothing'}
+          </p>
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {report.suggestions.map((suggestion, index) => (
+          <li key={index} className="flex gap-2 text-sm text-slate-300">
+            <Icons.Check className="w-4 h-4 text-indigo-400 shrink-0 mt-0.5" />
+            <span>{suggestion}</span>
+          </li>
+        ))}
+      </ul>
+
+      {report.limitOverrides && report.limitOverrides.length > 0 && (
+        <div className="bg-amber-950/20 border border-amber-900/50 rounded-lg p-3 text-xs space-y-1">
+          <p className="text-amber-300 font-medium mb-1">Over the daily limit</p>
+          {report.limitOverrides.map((override, index) => (
+            <p key={index} className="text-slate-400">
+              {WEEKDAYS[getDayIndexFromDateString(override.date)]}: &quot;{override.title}&quot; took the day to {override.loadHours}h of {override.limitHours}h
+              {override.justification && <span className="italic"> — {override.justification}</span>}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-between items-center text-[11px] text-slate-600">
+        <span>Written by {report.generatedBy}</span>
+        {onGenerate && (
+          <button onClick={handleGenerate} disabled={isGenerating} className="hover:text-slate-400 hover:underline disabled:opacity-50">
+            {isGenerating ? 'Rewriting...' : 'Rewrite'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
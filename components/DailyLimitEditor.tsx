@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Icons } from './Icons';
+import { DailyLimitPolicy, LimitEnforcement, UserProfile } from '../types';
+import { resolveDailyLimitPolicy } from '../lib/dailyLimit';
+
+interface DailyLimitEditorProps {
+  user: UserProfile;
+  onSaved: () => void;
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const ENFORCEMENTS: { value: LimitEnforcement; label: string; hint: string }[] = [
+  { value: 'WARN', label: 'Warn', hint: 'Ask before going over, then allow it' },
+  { value: 'JUSTIFY', label: 'Require a reason', hint: 'Going over needs a short justification' },
+  { value: 'BLOCK', label: 'Block', hint: 'Tasks that would go over are refused' },
+];
+
+export const DailyLimitEditor: React.FC<DailyLimitEditorProps> = ({ user, onSaved }) => {
+  const evenShare = Math.round((user.weeklyGoalHours / 7) * 100) / 100;
+  const [policy, setPolicy] = useState<DailyLimitPolicy>(resolveDailyLimitPolicy(user));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateDay = (index: number, value: string) => {
+    setPolicy(prev => {
+      const weekdayHours = [...(prev.weekdayHours || WEEKDAYS.map(() => evenShare))];
+      weekdayHours[index] = value === '' ? 0 : parseFloat(value);
+      return { ...prev, weekdayHours };
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(`/api/users/${user.googleId}/daily-limit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ policy }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save daily limit');
+      alert("Daily limit saved.");
+      onSaved();
+    } catch (error) {
+      alert((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900 p-6 rounded-2xl border border-slate-800">
+      <h3 className="text-lg font-semibold text-white mb-6">Daily Limit</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {ENFORCEMENTS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setPolicy(prev => ({ ...prev, enforcement: option.value }))}
+            className={`text-left p-3 rounded-lg border transition-colors ${policy.enforcement === option.value ? 'bg-indigo-600/20 border-indigo-500' : 'bg-slate-950/50 border-slate-800 hover:border-slate-700'}`}
+          >
+            <p className="text-sm font-medium text-white">{option.label}</p>
+            <p className="text-[11px] text-slate-500 mt-1">{option.hint}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-6">
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={!!policy.weekdayHours}
+            onChange={(e) => setPolicy(prev => ({ ...prev, weekdayHours: e.target.checked ? WEEKDAYS.map(() => evenShare) : undefined }))}
+            className="accent-indigo-500"
+          />
+          Set a limit for each weekday
+        </label>
+        {policy.weekdayHours ? (
+          <div className="grid grid-cols-7 gap-2 mt-3">
+            {WEEKDAYS.map((label, index) => (
+              <div key={label}>
+                <label className="block text-[11px] text-slate-500 mb-1 text-center">{label}</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={24}
+                  step={0.5}
+                  value={policy.weekdayHours![index]}
+                  onChange={(e) => updateDay(index, e.target.value)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-white text-center focus:outline-none focus:border-indigo-500"
+                />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-[11px] text-slate-500 mt-2">Every day is limited to an even share of your weekly goal ({evenShare}h).</p>
+        )}
+      </div>
+
+      <p className="text-[11px] text-slate-500 mt-4">
+        Tasks that go over the limit anyway are listed in that week&apos;s report.
+      </p>
+
+      <div className="flex gap-3 mt-6">
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium disabled:opacity-50 flex items-center gap-2"
+        >
+          {isSaving && <Icons.Loader className="w-4 h-4 animate-spin" />}
+          Save daily limit
+        </button>
+      </div>
+    </div>
+  );
+};
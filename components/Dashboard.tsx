@@ -1,7 +1,19 @@
 import React, { useMemo } from 'react';
 import { ResponsiveContainer, PieChart, Pie, Cell, AreaChart, Area, XAxis, YAxis, Tooltip, BarChart, Bar, CartesianGrid, Legend } from 'recharts';
 import { Icons } from './Icons';
-import { UserProfile, WeeklyStats, Task, TaskType, ScreenTimeEntry } from '../types';
+import { RatingBreakdown } from './RatingBreakdown';
+import { UserProfile, WeeklyStats, Task, ScreenTimeEntry } from '../types';
+import { getCategory, resolveCategories } from '../lib/categories';
+import {
+  formatDate,
+  getDayIndex,
+  getDayIndexFromDateString,
+  getUserTimeZone,
+  getWeekEnd,
+  getWeekId,
+  getWeekIdFromDateString,
+  getWeekStart
+} from '../lib/dates';
 
 interface DashboardProps {
   user: UserProfile;
@@ -14,44 +26,35 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, stats, tasks, screen
   
   const completionPercentage = Math.min(100, (stats.completedHours / stats.goalHours) * 100);
 
-  // Determine Current Week Range (Monday to Sunday)
-  const { monday, nextMonday } = useMemo(() => {
-    const now = new Date();
-    const currentDay = now.getDay(); // 0=Sun, 1=Mon...
-    const distanceToMonday = currentDay === 0 ? 6 : currentDay - 1;
-    
-    const m = new Date(now);
-    m.setDate(now.getDate() - distanceToMonday);
-    m.setHours(0, 0, 0, 0);
-    
-    const nm = new Date(m);
-    nm.setDate(m.getDate() + 7);
-    
-    return { monday: m, nextMonday: nm };
-  }, []);
+  const timeZone = getUserTimeZone(user);
 
   // Filter verified tasks for this week only
   const thisWeekTasks = useMemo(() => {
     return tasks.filter(task => {
         if (task.status !== 'VERIFIED' || !task.completedAt) return false;
-        const tDate = new Date(task.completedAt);
-        return tDate >= monday && tDate < nextMonday;
+        return getWeekId(task.completedAt, timeZone) === stats.weekId;
     });
-  }, [tasks, monday, nextMonday]);
-
-  // Calculate Focus Areas (Study vs Work) for THIS WEEK
-  const tasksByType = useMemo(() => {
-    const study = thisWeekTasks.filter(t => t.type === TaskType.STUDY).reduce((acc, t) => acc + t.durationHours, 0);
-    const work = thisWeekTasks.filter(t => t.type === TaskType.WORK).reduce((acc, t) => acc + t.durationHours, 0);
-    return [
-      { name: 'Study', value: study, color: '#818cf8' }, // Indigo 400
-      { name: 'Work', value: work, color: '#2dd4bf' }, // Teal 400
-    ];
-  }, [thisWeekTasks]);
-
-  const weeklyStudyHours = tasksByType.find(t => t.name === 'Study')?.value || 0;
-  const weeklyWorkHours = tasksByType.find(t => t.name === 'Work')?.value || 0;
-  const totalProductivity = weeklyStudyHours + weeklyWorkHours;
+  }, [tasks, stats.weekId, timeZone]);
+
+  const categories = resolveCategories(user);
+
+  // Calculate Focus Areas (hours per category) for THIS WEEK. Tasks left in a
+  // removed category still show, under their own row.
+  const tasksByCategory = useMemo(() => {
+    const ids = [...categories.map(c => c.id), ...thisWeekTasks.map(t => t.categoryId)];
+    return Array.from(new Set(ids)).map(id => {
+      const category = getCategory(categories, id);
+      return {
+        id,
+        name: category.name,
+        color: category.color,
+        target: category.weeklyTargetHours,
+        value: thisWeekTasks.filter(t => t.categoryId === id).reduce((acc, t) => acc + t.durationHours, 0),
+      };
+    }).filter(item => item.value > 0 || categories.some(c => c.id === item.id));
+  }, [thisWeekTasks, categories]);
+
+  const totalProductivity = tasksByCategory.reduce((acc, item) => acc + item.value, 0);
 
   // Calculate Daily Activity for THIS WEEK
   const weeklyActivity = useMemo(() => {
@@ -59,26 +62,18 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, stats, tasks, screen
     const data = days.map(d => ({ day: d, hours: 0, screentime: 0 }));
 
     thisWeekTasks.forEach(task => {
-        const tDate = new Date(task.completedAt!);
-        const diffTime = tDate.getTime() - monday.getTime();
-        const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
-        if (diffDays >= 0 && diffDays < 7) {
-            data[diffDays].hours += task.durationHours;
-        }
+        data[getDayIndex(task.completedAt!, timeZone)].hours += task.durationHours;
     });
 
     // Screen Time
     screentime.forEach(entry => {
-        const tDate = new Date(entry.submittedAt);
-        const diffTime = tDate.getTime() - monday.getTime();
-        const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
-        if (diffDays >= 0 && diffDays < 7) {
-            data[diffDays].screentime += entry.hours;
+        if (getWeekIdFromDateString(entry.date) === stats.weekId) {
+            data[getDayIndexFromDateString(entry.date)].screentime += entry.hours;
         }
     });
 
     return data;
-  }, [thisWeekTasks, screentime, monday]);
+  }, [thisWeekTasks, screentime, stats.weekId, timeZone]);
 
   const ratingColor = stats.rating >= 7 ? 'text-green-400' : stats.rating >= 4 ? 'text-yellow-400' : 'text-red-400';
 
@@ -87,7 +82,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, stats, tasks, screen
       <header className="flex justify-between items-end mb-8">
         <div>
           <h2 className="text-3xl font-bold text-white mb-1">Dashboard</h2>
-          <p className="text-slate-400">Week Overview • {monday.toLocaleDateString()} - {new Date(nextMonday.getTime() - 1).toLocaleDateString()}</p>
+          <p className="text-slate-400">Week Overview • {formatDate(getWeekStart(stats.weekId, timeZone), timeZone)} - {formatDate(getWeekEnd(stats.weekId, timeZone), timeZone)}</p>
         </div>
         <div className="flex items-center gap-2 bg-orange-950/30 px-4 py-2 rounded-full border border-orange-900/50">
           <Icons.Fire className="w-5 h-5 text-orange-500 animate-pulse" />
@@ -107,7 +102,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, stats, tasks, screen
             <span className={`text-5xl font-bold ${ratingColor}`}>{stats.rating}</span>
             <span className="text-slate-500 text-lg mb-1">/ 10.0</span>
           </div>
-          <p className="text-xs text-slate-500 mt-2">Based on tasks vs. screen time</p>
+          <p className="text-xs text-slate-500 mt-2">Goal, consistency, balance and screen time. See the breakdown below.</p>
         </div>
 
         {/* Hours Progress */}
@@ -156,16 +151,16 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, stats, tasks, screen
         <div className="bg-slate-900 p-6 rounded-2xl border border-slate-800">
           <p className="text-slate-400 text-sm font-medium mb-4">Focus Areas (This Week)</p>
           <div className="space-y-3">
-             {tasksByType.map((item) => (
-               <div key={item.name}>
+             {tasksByCategory.map((item) => (
+               <div key={item.id}>
                  <div className="flex justify-between text-xs text-slate-300 mb-1">
                    <span>{item.name}</span>
-                   <span>{item.value.toFixed(1)}h</span>
+                   <span>{item.value.toFixed(1)}h{item.target ? ` / ${item.target}h` : ''}</span>
                  </div>
                  <div className="w-full bg-slate-800 rounded-full h-1.5">
                    <div 
                     className="h-1.5 rounded-full" 
-                    style={{ width: `${Math.min(100, (item.value / (totalProductivity || 1)) * 100)}%`, backgroundColor: item.color }} 
+                    style={{ width: `${Math.min(100, (item.value / (item.target || totalProductivity || 1)) * 100)}%`, backgroundColor: item.color }} 
                    />
                  </div>
                </div>
@@ -175,6 +170,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, stats, tasks, screen
         </div>
       </div>
 
+      {/* Rating Breakdown */}
+      <div className="bg-slate-900 p-6 rounded-2xl border border-slate-800">
+        <h3 className="text-lg font-semibold text-white mb-6">How This Week Is Rated</h3>
+        <RatingBreakdown breakdown={stats.ratingBreakdown} />
+      </div>
+
       {/* Charts Section */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2 bg-slate-900 p-6 rounded-2xl border border-slate-800">
@@ -209,8 +210,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, stats, tasks, screen
                 <BarChart data={[
                   { 
                     name: 'This Week', 
-                    study: weeklyStudyHours, 
-                    work: weeklyWorkHours, 
+                    ...Object.fromEntries(tasksByCategory.map(item => [item.id, item.value])),
                     screen: stats.screenTimeHours 
                   }
                 ]}>
@@ -223,8 +223,17 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, stats, tasks, screen
                     formatter={(value: number, name: string) => [`${value.toFixed(1)} hrs`, name]}
                   />
                   <Legend />
-                  <Bar dataKey="study" name="Study" stackId="a" fill="#818cf8" radius={[0, 0, 0, 0]} barSize={40} />
-                  <Bar dataKey="work" name="Work" stackId="a" fill="#2dd4bf" radius={[4, 4, 0, 0]} barSize={40} />
+                  {tasksByCategory.map((item, index) => (
+                    <Bar
+                      key={item.id}
+                      dataKey={item.id}
+                      name={item.name}
+                      stackId="a"
+                      fill={item.color}
+                      radius={index === tasksByCategory.length - 1 ? [4, 4, 0, 0] : [0, 0, 0, 0]}
+                      barSize={40}
+                    />
+                  ))}
                   <Bar dataKey="screen" name="Screen Time" fill="#f43f5e" radius={[4, 4, 0, 0]} barSize={40} />
                 </BarChart>
               </ResponsiveContainer>
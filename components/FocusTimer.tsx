@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Icons } from './Icons';
+import { FocusMode, Task, UserProfile } from '../types';
+import { BREAK_MINUTES, formatElapsed, runningSegment, segmentDeadline, segmentMs, trackedHours } from '../lib/focus';
+
+interface FocusTimerProps {
+  user: UserProfile;
+  task: Task;
+  onUpdated: (tasks: Task[]) => void; // The timed task plus any whose timer this one stopped
+}
+
+// Start/stop control on a task card. The running segment lives on the task,
+// so the timer picks up where it was after a reload.
+export const FocusTimer: React.FC<FocusTimerProps> = ({ user, task, onUpdated }) => {
+  const [mode, setMode] = useState<FocusMode>('POMODORO');
+  const [now, setNow] = useState(Date.now());
+  const [breakEndsAt, setBreakEndsAt] = useState<number | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const stopping = useRef(false);
+  const running = runningSegment(task);
+
+  useEffect(() => {
+    if (!running && !breakEndsAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [running, breakEndsAt]);
+
+  const send = async (body: { action: 'start'; mode: FocusMode } | { action: 'stop' }) => {
+    setIsBusy(true);
+    try {
+      const res = await fetch(`/api/users/${user.googleId}/tasks/${task.id}/focus`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to update focus timer');
+      onUpdated([data.task, ...data.stopped]);
+      return true;
+    } catch (error) {
+      alert((error as Error).message);
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // A pomodoro stops itself when its time is up, then a break starts
+  useEffect(() => {
+    if (!running || running.mode !== 'POMODORO' || now < segmentDeadline(running) || stopping.current) return;
+    stopping.current = true;
+    send({ action: 'stop' }).then(stopped => {
+      stopping.current = false;
+      if (stopped) setBreakEndsAt(Date.now() + BREAK_MINUTES * 60 * 1000);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [running, now]);
+
+  const onBreak = !running && breakEndsAt !== null && now < breakEndsAt;
+  const tracked = trackedHours(task, now);
+
+  if (running) {
+    const elapsed = segmentMs(running, now);
+    const label = running.mode === 'POMODORO'
+      ? `${formatElapsed(segmentDeadline(running) - running.startedAt - elapsed)} left`
+      : formatElapsed(elapsed);
+    return (
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-mono text-emerald-300 bg-emerald-950/30 border border-emerald-900/40 px-3 py-2 rounded-xl flex items-center gap-2">
+          <span className="w-2 h-2 rounded-full bg-emerald-400 animate-pulse"></span>
+          {label}
+        </span>
+        <button
+          onClick={() => send({ action: 'stop' })}
+          disabled={isBusy}
+          className="p-2.5 text-slate-300 bg-slate-800 hover:bg-slate-700 rounded-xl transition-all disabled:opacity-50"
+          title="Stop timer"
+        >
+          <Icons.Pause className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {onBreak ? (
+        <span className="text-xs text-sky-300 whitespace-nowrap">Break {formatElapsed(breakEndsAt! - now)}</span>
+      ) : tracked > 0 && (
+        <span className="text-xs text-slate-500 whitespace-nowrap" title="Tracked with the focus timer">{formatElapsed(tracked * 60 * 60 * 1000)}</span>
+      )}
+      <select
+        value={mode}
+        onChange={(e) => setMode(e.target.value as FocusMode)}
+        className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-xs text-slate-300 focus:outline-none focus:border-indigo-500"
+        title="Timer mode"
+      >
+        <option value="POMODORO">Pomodoro</option>
+        <option value="FREE">Free</option>
+      </select>
+      <button
+        onClick={() => {
+          setBreakEndsAt(null);
+          send({ action: 'start', mode });
+        }}
+        disabled={isBusy}
+        className="p-2.5 text-emerald-400 bg-slate-800 hover:bg-slate-700 rounded-xl transition-all disabled:opacity-50"
+        title="Start focus timer"
+      >
+        <Icons.Play className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -18,30 +18,26 @@ import {
   Line
 } from 'recharts';
 import { Icons } from './Icons';
-import { HistoryEntry, Task, TaskType, ScreenTimeEntry } from '../types';
+import { RatingBreakdown } from './RatingBreakdown';
+import { CoachingReport } from './CoachingReport';
+import { HistoryEntry, Task, TaskCategory, ScreenTimeEntry, CoachingReport as CoachingReportData } from '../types';
+import { getCategory } from '../lib/categories';
+import { formatDate, getDayIndex, getDayIndexFromDateString, getWeekId, getWeekIdFromDateString } from '../lib/dates';
 
 interface HistoryProps {
   history: HistoryEntry[];
   tasks: Task[];
   screentime: ScreenTimeEntry[];
+  reports: CoachingReportData[];
+  categories: TaskCategory[];
   userId?: string;
+  timeZone: string;
+  bestStreak: number;
   onDeleteHistory?: (weekId: string) => void;
+  onGenerateReport?: (weekId: string) => Promise<void>;
 }
 
-// Helper to calculate ISO Week ID (Matches App.tsx logic)
-const getWeekIdFromTimestamp = (timestamp: number) => {
-  const d = new Date(timestamp);
-  d.setHours(0, 0, 0, 0);
-  // Set to nearest Thursday: current date + 4 - current day number
-  // Make Sunday's day number 7
-  d.setDate(d.getDate() + 4 - (d.getDay() || 7));
-  const yearStart = new Date(d.getFullYear(), 0, 1);
-  // Calculate full weeks to nearest Thursday
-  const weekNo = Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
-  return `${d.getFullYear()}-W${String(weekNo).padStart(2, '0')}`;
-};
-
-export const History: React.FC<HistoryProps> = ({ history, tasks, screentime, userId, onDeleteHistory }) => {
+export const History: React.FC<HistoryProps> = ({ history, tasks, screentime, reports, categories, userId, timeZone, bestStreak, onDeleteHistory, onGenerateReport }) => {
   const [expandedWeekId, setExpandedWeekId] = useState<string | null>(null);
 
   // 1. Sort history chronologically (Oldest -> Newest) using robust numeric parsing
@@ -66,22 +62,6 @@ export const History: React.FC<HistoryProps> = ({ history, tasks, screentime, us
     ? (sortedHistory.reduce((acc, curr) => acc + curr.rating, 0) / sortedHistory.length).toFixed(1) 
     : "0.0";
 
-  const calculateBestStreak = (entries: HistoryEntry[]) => {
-    let maxStreak = 0;
-    let currentStreak = 0;
-    
-    entries.forEach(entry => {
-        if (entry.completedHours >= entry.goalHours) {
-            currentStreak++;
-            maxStreak = Math.max(maxStreak, currentStreak);
-        } else {
-            currentStreak = 0;
-        }
-    });
-    return maxStreak;
-  };
-
-  const bestStreak = calculateBestStreak(sortedHistory);
   const avgScreenTime = sortedHistory.length > 0 
     ? (sortedHistory.reduce((acc, curr) => acc + curr.screenTimeHours, 0) / sortedHistory.length).toFixed(1) 
     : "0.0";
@@ -116,7 +96,7 @@ export const History: React.FC<HistoryProps> = ({ history, tasks, screentime, us
       return tasks.filter(t => {
           if (!t.completedAt) return false;
           // Use robust ID matching instead of fragile Date string parsing
-          return getWeekIdFromTimestamp(t.completedAt) === entry.weekId;
+          return getWeekId(t.completedAt, timeZone) === entry.weekId;
       });
   };
 
@@ -134,32 +114,31 @@ export const History: React.FC<HistoryProps> = ({ history, tasks, screentime, us
     
     weekTasks.forEach(task => {
         if (!task.completedAt) return;
-        const date = new Date(task.completedAt);
-        // Adjust for Monday start (0=Mon, ... 6=Sun)
-        let dayIndex = date.getDay() - 1;
-        if (dayIndex === -1) dayIndex = 6;
-        
-        if (data[dayIndex]) {
-            data[dayIndex].productivity += task.durationHours;
-        }
+        data[getDayIndex(task.completedAt, timeZone)].productivity += task.durationHours;
     });
 
     // Fill screen time from entries
-    const weekScreentime = screentime.filter(s => {
-        const weekId = getWeekIdFromTimestamp(s.submittedAt);
-        return weekId === entry.weekId;
-    });
+    const weekScreentime = screentime.filter(s => getWeekIdFromDateString(s.date) === entry.weekId);
 
     weekScreentime.forEach(s => {
-        const date = new Date(s.submittedAt);
-        let dayIndex = date.getDay() - 1;
-        if (dayIndex === -1) dayIndex = 6;
-        if (data[dayIndex]) data[dayIndex].screentime += s.hours;
+        data[getDayIndexFromDateString(s.date)].screentime += s.hours;
     });
 
     return data;
   };
 
+  // Helper for the category pie: verified hours per category, largest first
+  const getCategoryData = (entry: HistoryEntry) => {
+    const hours = getTasksForWeek(entry).reduce<Record<string, number>>((acc, task) => {
+        acc[task.categoryId] = (acc[task.categoryId] || 0) + task.durationHours;
+        return acc;
+    }, {});
+
+    return Object.entries(hours)
+        .map(([id, value]) => ({ ...getCategory(categories, id), value }))
+        .sort((a, b) => b.value - a.value);
+  };
+
   const rangeLabel = visibleHistory.length > 0 
     ? `${visibleHistory[0].weekId} — ${visibleHistory[visibleHistory.length - 1].weekId}`
     : "No Data";
@@ -320,6 +299,11 @@ export const History: React.FC<HistoryProps> = ({ history, tasks, screentime, us
                                    {entry.completedHours.toFixed(1)}
                                 </span>
                                 <span className="text-slate-600 text-xs"> / {entry.goalHours}h</span>
+                                {(entry.appealsWon || entry.appealsLost) ? (
+                                   <div className="text-[10px] text-amber-500/80 mt-0.5">
+                                      {(entry.appealedHours || 0).toFixed(1)}h on appeal • {entry.appealsWon || 0} won / {entry.appealsLost || 0} lost
+                                   </div>
+                                ) : null}
                              </td>
                              <td className="px-6 py-4 text-slate-300">
                                 <span className={entry.screenTimeHours > 21 ? "text-red-400" : "text-slate-300"}>
@@ -344,6 +328,27 @@ export const History: React.FC<HistoryProps> = ({ history, tasks, screentime, us
                                 <td colSpan={6} className="px-6 py-6 border-t border-b border-slate-800">
                                     <div className="flex flex-col gap-6">
                                         
+                                        {/* Coaching Report */}
+                                        <div className="bg-slate-900 border border-slate-800 rounded-xl p-4">
+                                            <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-4 flex items-center gap-2">
+                                                <Icons.Shield className="w-4 h-4" /> Weekly Report
+                                            </h4>
+                                            <CoachingReport
+                                                report={reports.find(report => report.weekId === entry.weekId)}
+                                                categories={categories}
+                                                closed={!!entry.sealedAt}
+                                                onGenerate={onGenerateReport && entry.sealedAt ? () => onGenerateReport(entry.weekId) : undefined}
+                                            />
+                                        </div>
+
+                                        {/* Rating Breakdown */}
+                                        <div className="bg-slate-900 border border-slate-800 rounded-xl p-4">
+                                            <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-4 flex items-center gap-2">
+                                                <Icons.Target className="w-4 h-4" /> Rating Breakdown
+                                            </h4>
+                                            <RatingBreakdown breakdown={entry.ratingBreakdown} />
+                                        </div>
+
                                         {/* Chart: Daily Activity Trends (Full Width) */}
                                         <div className="bg-slate-900 border border-slate-800 rounded-xl p-4">
                                             <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-4 flex items-center gap-2">
@@ -383,6 +388,33 @@ export const History: React.FC<HistoryProps> = ({ history, tasks, screentime, us
                                             </div>
                                         </div>
 
+                                        {/* Chart: Hours by Category */}
+                                        <div className="bg-slate-900 border border-slate-800 rounded-xl p-4">
+                                            <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-4 flex items-center gap-2">
+                                                <Icons.Tag className="w-4 h-4" /> Hours by Category
+                                            </h4>
+                                            {getCategoryData(entry).length > 0 ? (
+                                                <div className="h-64">
+                                                    <ResponsiveContainer width="100%" height="100%">
+                                                        <PieChart>
+                                                            <Pie data={getCategoryData(entry)} dataKey="value" nameKey="name" innerRadius={50} outerRadius={80} stroke="none">
+                                                                {getCategoryData(entry).map(category => (
+                                                                    <Cell key={category.id} fill={category.color} />
+                                                                ))}
+                                                            </Pie>
+                                                            <Tooltip
+                                                                contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f8fafc' }}
+                                                                formatter={(value: number, name: string) => [`${value.toFixed(1)} hrs`, name]}
+                                                            />
+                                                            <Legend />
+                                                        </PieChart>
+                                                    </ResponsiveContainer>
+                                                </div>
+                                            ) : (
+                                                <p className="text-sm text-slate-500 italic">No verified hours this week.</p>
+                                            )}
+                                        </div>
+
                                         {/* Task List (Full Width) */}
                                         <div className="bg-slate-900 border border-slate-800 rounded-xl p-4">
                                             <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-4 flex items-center gap-2">
@@ -392,13 +424,13 @@ export const History: React.FC<HistoryProps> = ({ history, tasks, screentime, us
                                                 {getTasksForWeek(entry).length > 0 ? (
                                                     getTasksForWeek(entry).map(task => (
                                                         <div key={task.id} className="bg-slate-950/50 border border-slate-800 rounded-lg p-3 flex items-start gap-3 hover:border-slate-700 transition-colors">
-                                                            <div className={`mt-1 w-2 h-2 rounded-full flex-shrink-0 ${task.type === TaskType.STUDY ? 'bg-indigo-500' : 'bg-teal-500'}`}></div>
+                                                            <div className="mt-1 w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: getCategory(categories, task.categoryId).color }} title={getCategory(categories, task.categoryId).name}></div>
                                                             <div className="overflow-hidden min-w-0">
                                                                 <p className="text-slate-200 text-sm font-medium truncate" title={task.title}>{task.title}</p>
                                                                 <div className="flex items-center gap-2 text-xs text-slate-500 mt-1">
                                                                     <span className="flex items-center gap-1"><Icons.Clock className="w-3 h-3"/> {task.durationHours}h</span>
                                                                     <span>•</span>
-                                                                    <span>{new Date(task.completedAt!).toLocaleDateString()}</span>
+                                                                    <span>{formatDate(task.completedAt!, timeZone)}</span>
                                                                 </div>
                                                             </div>
                                                         </div>
@@ -21,7 +21,24 @@ import {
   User,
   Database,
   Download,
-  Check
+  Check,
+  Settings,
+  GraduationCap,
+  Briefcase,
+  BookOpen,
+  Dumbbell,
+  Code,
+  Languages,
+  Music,
+  Palette,
+  Brain,
+  Heart,
+  Tag,
+  FolderKanban,
+  Archive,
+  Repeat,
+  Play,
+  Pause
 } from 'lucide-react';
 
 export const Icons = {
@@ -46,5 +63,22 @@ export const Icons = {
   User,
   Database,
   Download,
-  Check
+  Check,
+  Settings,
+  GraduationCap,
+  Briefcase,
+  BookOpen,
+  Dumbbell,
+  Code,
+  Languages,
+  Music,
+  Palette,
+  Brain,
+  Heart,
+  Tag,
+  Project: FolderKanban,
+  Archive,
+  Repeat,
+  Play,
+  Pause
 };
\ No newline at end of file
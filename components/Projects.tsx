@@ -0,0 +1,299 @@
+import React, { useMemo, useState } from 'react';
+import { ResponsiveContainer, ComposedChart, Area, Line, XAxis, YAxis, Tooltip, CartesianGrid, ReferenceLine } from 'recharts';
+import { Icons } from './Icons';
+import { Project, Task, UserProfile } from '../types';
+import { getUserTimeZone } from '../lib/dates';
+import { ProjectProgress, ProjectStatus, buildProjectProgress } from '../lib/projects';
+
+interface ProjectsProps {
+  user: UserProfile;
+  projects: Project[];
+  tasks: Task[];
+  setProjects: React.Dispatch<React.SetStateAction<Project[]>>;
+  setTasks: React.Dispatch<React.SetStateAction<Task[]>>;
+}
+
+const STATUS_STYLES: Record<ProjectStatus, { label: string; className: string }> = {
+  'done': { label: 'Done', className: 'bg-green-950 text-green-400' },
+  'on-track': { label: 'On track', className: 'bg-indigo-950 text-indigo-300' },
+  'at-risk': { label: 'Behind pace', className: 'bg-orange-950 text-orange-400' },
+  'overdue': { label: 'Overdue', className: 'bg-red-950 text-red-400' },
+  'no-pace': { label: 'No recent work', className: 'bg-slate-800 text-slate-400' },
+};
+
+export const Projects: React.FC<ProjectsProps> = ({ user, projects, tasks, setProjects, setTasks }) => {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [targetHours, setTargetHours] = useState('');
+  const [deadline, setDeadline] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+
+  const timeZone = getUserTimeZone(user);
+  const visibleProjects = projects.filter(p => showArchived || !p.archivedAt);
+  const progress = useMemo(
+    () => Object.fromEntries(projects.map(p => [p.id, buildProjectProgress(p, tasks, timeZone)])),
+    [projects, tasks, timeZone]
+  );
+
+  const openModal = (project?: Project) => {
+    setEditingId(project?.id || null);
+    setName(project?.name || '');
+    setDescription(project?.description || '');
+    setTargetHours(project?.targetHours !== undefined ? String(project.targetHours) : '');
+    setDeadline(project?.deadline || '');
+    setIsModalOpen(true);
+  };
+
+  const saveProject = async (project: Project) => {
+    const res = await fetch(`/api/users/${user.googleId}/projects`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(project)
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to save project');
+    setProjects(prev => prev.some(p => p.id === data.id) ? prev.map(p => p.id === data.id ? data : p) : [...prev, data]);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    if (!targetHours && !deadline) {
+      alert("Set a target in hours, a deadline, or both.");
+      return;
+    }
+    const existing = projects.find(p => p.id === editingId);
+    try {
+      await saveProject({
+        id: existing?.id || crypto.randomUUID(),
+        name: name.trim(),
+        description: description.trim() || undefined,
+        targetHours: targetHours ? parseFloat(targetHours) : undefined,
+        deadline: deadline || undefined,
+        createdAt: existing?.createdAt || Date.now(),
+        archivedAt: existing?.archivedAt,
+      });
+      setIsModalOpen(false);
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleArchive = async (project: Project) => {
+    try {
+      await saveProject({ ...project, archivedAt: project.archivedAt ? undefined : Date.now() });
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleDelete = async (project: Project) => {
+    if (!confirm(`Delete "${project.name}"? Its tasks are kept but no longer belong to a project.`)) return;
+    try {
+      const res = await fetch(`/api/users/${user.googleId}/projects/${project.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json()).error || 'Failed to delete project');
+      setProjects(prev => prev.filter(p => p.id !== project.id));
+      setTasks(prev => prev.map(t => t.projectId === project.id ? { ...t, projectId: undefined } : t));
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-6 pb-20 md:pb-0">
+      <header className="flex justify-between items-end mb-8">
+        <div>
+          <h2 className="text-3xl font-bold text-white mb-1">Projects</h2>
+          <p className="text-slate-400">Larger goals your verified task hours count towards.</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-slate-400 cursor-pointer">
+            <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} className="accent-indigo-500" />
+            Show archived
+          </label>
+          <button
+            onClick={() => openModal()}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors"
+          >
+            <Icons.Plus className="w-5 h-5" /> New Project
+          </button>
+        </div>
+      </header>
+
+      {visibleProjects.length === 0 ? (
+        <div className="text-center py-16 text-slate-500 border border-dashed border-slate-800 rounded-2xl">
+          <Icons.Project className="w-10 h-10 mx-auto mb-3 opacity-50" />
+          <p>No projects yet. Create one, then attach tasks to it from the task form.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          {visibleProjects.map(project => (
+            <ProjectCard
+              key={project.id}
+              project={project}
+              progress={progress[project.id]}
+              onEdit={() => openModal(project)}
+              onArchive={() => handleArchive(project)}
+              onDelete={() => handleDelete(project)}
+            />
+          ))}
+        </div>
+      )}
+
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-slate-900 border border-slate-700 w-full max-w-md rounded-2xl p-6 shadow-2xl">
+            <h3 className="text-xl font-bold text-white mb-4">{editingId ? 'Edit Project' : 'New Project'}</h3>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm text-slate-400 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-indigo-500"
+                  placeholder="e.g., Pass the AWS certification"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-slate-400 mb-1">Description (Optional)</label>
+                <textarea
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-indigo-500 h-20 resize-none"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-slate-400 mb-1">Target (Hours)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={targetHours}
+                    onChange={(e) => setTargetHours(e.target.value)}
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-indigo-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm text-slate-400 mb-1">Deadline</label>
+                  <input
+                    type="date"
+                    value={deadline}
+                    onChange={(e) => setDeadline(e.target.value)}
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-indigo-500"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-slate-500">Set a target, a deadline, or both. With both, the projection shows whether you&apos;ll make it.</p>
+            </div>
+            <div className="flex justify-end gap-3 mt-6">
+              <button onClick={() => setIsModalOpen(false)} className="px-4 py-2 text-slate-400 hover:text-white transition-colors">Cancel</button>
+              <button
+                onClick={handleSave}
+                className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+              >
+                {editingId ? 'Save Changes' : 'Create Project'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface ProjectCardProps {
+  project: Project;
+  progress: ProjectProgress;
+  onEdit: () => void;
+  onArchive: () => void;
+  onDelete: () => void;
+}
+
+const ProjectCard: React.FC<ProjectCardProps> = ({ project, progress, onEdit, onArchive, onDelete }) => {
+  const status = STATUS_STYLES[progress.status];
+  const percent = project.targetHours ? Math.min(100, (progress.completedHours / project.targetHours) * 100) : null;
+  const lastDate = progress.burnUp[progress.burnUp.length - 1]?.date;
+
+  return (
+    <div className={`bg-slate-900 p-6 rounded-2xl border border-slate-800 ${project.archivedAt ? 'opacity-60' : ''}`}>
+      <div className="flex justify-between items-start gap-4 mb-4">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            <h3 className="text-lg font-semibold text-white truncate">{project.name}</h3>
+            <span className={`text-[10px] uppercase tracking-wider font-bold px-2 py-0.5 rounded shrink-0 ${status.className}`}>{status.label}</span>
+          </div>
+          {project.description && <p className="text-sm text-slate-400">{project.description}</p>}
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <button onClick={onEdit} className="text-slate-500 hover:text-indigo-400 p-1 rounded hover:bg-slate-800" title="Edit Project">
+            <Icons.Edit className="w-4 h-4" />
+          </button>
+          <button onClick={onArchive} className="text-slate-500 hover:text-slate-200 p-1 rounded hover:bg-slate-800" title={project.archivedAt ? 'Unarchive' : 'Archive'}>
+            <Icons.Archive className="w-4 h-4" />
+          </button>
+          <button onClick={onDelete} className="text-slate-500 hover:text-red-400 p-1 rounded hover:bg-slate-800" title="Delete Project">
+            <Icons.Trash className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {percent !== null && (
+        <div className="mb-4">
+          <div className="flex justify-between text-xs text-slate-300 mb-1">
+            <span>{progress.completedHours}h of {project.targetHours}h</span>
+            <span>{Math.round(percent)}%</span>
+          </div>
+          <div className="w-full bg-slate-800 rounded-full h-2">
+            <div className="h-2 rounded-full bg-indigo-500" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-3 text-xs mb-4">
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+          <p className="text-slate-500 mb-1">Deadline</p>
+          <p className="text-white font-semibold">{project.deadline || '—'}</p>
+        </div>
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+          <p className="text-slate-500 mb-1">Projected finish</p>
+          <p className={`font-semibold ${progress.status === 'at-risk' ? 'text-orange-400' : 'text-white'}`}>
+            {project.targetHours === undefined ? `${progress.completedHours}h so far` : progress.projectedCompletion || 'No pace yet'}
+          </p>
+        </div>
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+          <p className="text-slate-500 mb-1">Recent pace</p>
+          <p className="text-white font-semibold">{progress.hoursPerDay}h / day</p>
+        </div>
+      </div>
+
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={progress.burnUp}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+            <XAxis dataKey="date" stroke="#475569" fontSize={10} tickLine={false} axisLine={false} minTickGap={30} />
+            <YAxis stroke="#475569" fontSize={10} tickLine={false} axisLine={false} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f8fafc' }}
+              formatter={(value: number, name: string) => [`${value.toFixed(1)} hrs`, name]}
+            />
+            <Area type="stepAfter" dataKey="hours" name="Verified" stroke="#6366f1" strokeWidth={2} fill="#6366f1" fillOpacity={0.2} />
+            <Line type="linear" dataKey="projected" name="Projected" stroke="#818cf8" strokeDasharray="5 5" dot={false} />
+            {project.targetHours !== undefined && (
+              <ReferenceLine y={project.targetHours} stroke="#22c55e" strokeDasharray="3 3" label={{ value: 'Target', fill: '#22c55e', fontSize: 10, position: 'insideTopLeft' }} />
+            )}
+            {project.deadline && lastDate && project.deadline <= lastDate && (
+              <ReferenceLine x={project.deadline} stroke="#f43f5e" strokeDasharray="3 3" label={{ value: 'Deadline', fill: '#f43f5e', fontSize: 10, position: 'insideTopRight' }} />
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <p className="text-[11px] text-slate-500 mt-2">
+        {progress.verifiedTasks} verified task{progress.verifiedTasks === 1 ? '' : 's'}, {progress.openTasks} open
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Icons } from './Icons';
+import { RatingBreakdown as RatingBreakdownData } from '../types';
+
+interface RatingBreakdownProps {
+  breakdown?: RatingBreakdownData;
+}
+
+export const RatingBreakdown: React.FC<RatingBreakdownProps> = ({ breakdown }) => {
+  if (!breakdown) {
+    return <p className="text-sm text-slate-500 italic">No breakdown recorded for this week.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        {breakdown.components.map(component => {
+          const isPenalty = component.points < 0 || component.key === 'screenTime';
+          const share = component.maxPoints > 0 ? Math.min(100, (Math.abs(component.points) / component.maxPoints) * 100) : 0;
+          return (
+            <div key={component.key}>
+              <div className="flex justify-between text-xs mb-1">
+                <span className="text-slate-300">{component.label}</span>
+                <span className={`font-mono font-bold ${isPenalty ? (component.points < 0 ? 'text-red-400' : 'text-slate-500') : 'text-green-400'}`}>
+                  {component.points > 0 ? '+' : ''}{component.points.toFixed(1)}
+                  <span className="text-slate-600 font-normal"> / {isPenalty ? '-' : ''}{component.maxPoints}</span>
+                </span>
+              </div>
+              <div className="w-full bg-slate-800 rounded-full h-1.5">
+                <div
+                  className={`h-1.5 rounded-full ${isPenalty ? 'bg-red-500' : 'bg-indigo-500'}`}
+                  style={{ width: `${share}%` }}
+                />
+              </div>
+              <p className="text-[11px] text-slate-500 mt-1">{component.detail}</p>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex gap-2 text-sm text-slate-300 bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+        <Icons.Target className="w-4 h-4 text-indigo-400 shrink-0 mt-0.5" />
+        <p>{breakdown.explanation}</p>
+      </div>
+    </div>
+  );
+};
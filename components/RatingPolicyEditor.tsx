@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import { Icons } from './Icons';
+import { RatingPolicy, RatingPreview, UserProfile } from '../types';
+import { DEFAULT_RATING_POLICY } from '../lib/rating';
+import { resolveCategories } from '../lib/categories';
+
+interface RatingPolicyEditorProps {
+  user: UserProfile;
+  onSaved: () => void;
+}
+
+type NumericField = Exclude<keyof RatingPolicy, 'categoryMultipliers'>;
+
+const FIELDS: { key: NumericField; label: string; hint: string; step: number }[] = [
+  { key: 'goalWeight', label: 'Goal weight', hint: 'Points for reaching the weekly goal', step: 0.5 },
+  { key: 'goalProgressCap', label: 'Goal progress cap', hint: 'Multiple of the goal that still earns points (1 = no overtime credit)', step: 0.1 },
+  { key: 'consistencyWeight', label: 'Consistency weight', hint: 'Points for verified work on enough days', step: 0.5 },
+  { key: 'consistencyTargetDays', label: 'Consistency target days', hint: 'Active days needed for full consistency points', step: 1 },
+  { key: 'balanceWeight', label: 'Balance weight', hint: 'Points for meeting category targets, or spreading time evenly without them', step: 0.5 },
+  { key: 'dailyTargetBonus', label: 'Daily limit bonus', hint: 'Points for reaching the daily limit every day (0 = off)', step: 0.5 },
+  { key: 'screenTimeAllowanceHours', label: 'Screen time allowance', hint: 'Weekly hours before the penalty starts', step: 1 },
+  { key: 'screenTimeHoursPerPoint', label: 'Screen time hours per point', hint: 'Hours over the allowance that cost one point', step: 1 },
+  { key: 'maxScreenTimePenalty', label: 'Max screen time penalty', hint: 'Most points screen time can take off', step: 0.5 },
+];
+
+export const RatingPolicyEditor: React.FC<RatingPolicyEditorProps> = ({ user, onSaved }) => {
+  const [policy, setPolicy] = useState<RatingPolicy>(DEFAULT_RATING_POLICY);
+  const [preview, setPreview] = useState<RatingPreview[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const baseUrl = `/api/users/${user.googleId}/rating-policy`;
+  const categories = resolveCategories(user);
+
+  useEffect(() => {
+    fetch(baseUrl)
+      .then(res => res.ok ? res.json() : Promise.reject(new Error('Failed to load rating policy')))
+      .then(setPolicy)
+      .catch(error => console.error(error))
+      .finally(() => setIsLoading(false));
+  }, [baseUrl]);
+
+  const updateField = (key: NumericField, value: string) => {
+    setPolicy(prev => ({ ...prev, [key]: parseFloat(value) }));
+    setPreview(null);
+  };
+
+  const updateMultiplier = (categoryId: string, value: string) => {
+    setPolicy(prev => ({ ...prev, categoryMultipliers: { ...prev.categoryMultipliers, [categoryId]: parseFloat(value) } }));
+    setPreview(null);
+  };
+
+  const post = async (url: string, body: unknown) => {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Request failed');
+    return data;
+  };
+
+  const handlePreview = async () => {
+    setIsBusy(true);
+    try {
+      setPreview(await post(`${baseUrl}/preview`, { policy }));
+    } catch (error) {
+      alert((error as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = async (rescorePast: boolean) => {
+    if (rescorePast && !confirm("Re-score every past week with this policy? Closed weeks will get new ratings.")) return;
+    setIsBusy(true);
+    try {
+      const data = await post(baseUrl, { policy, rescorePast });
+      setPolicy(data.policy);
+      setPreview(null);
+      alert(rescorePast ? "Policy saved and all weeks re-scored." : "Policy saved. It applies to the current week from now on.");
+      onSaved();
+    } catch (error) {
+      alert((error as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <Icons.Loader className="w-8 h-8 text-indigo-500 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 pb-20 md:pb-0">
+      <header className="mb-8">
+        <h2 className="text-3xl font-bold text-white mb-1">Settings</h2>
+        <p className="text-slate-400">Choose how your weekly rating is calculated and how tasks are categorised.</p>
+      </header>
+
+      <div className="bg-slate-900 p-6 rounded-2xl border border-slate-800">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-semibold text-white">Rating Policy</h3>
+          <button
+            onClick={() => { setPolicy(DEFAULT_RATING_POLICY); setPreview(null); }}
+            className="text-xs text-slate-400 hover:text-white hover:underline"
+          >
+            Reset to defaults
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {FIELDS.map(field => (
+            <label key={field.key} className="block">
+              <span className="block text-sm text-slate-300 mb-1">{field.label}</span>
+              <input
+                type="number"
+                step={field.step}
+                min={0}
+                value={Number.isNaN(policy[field.key]) ? '' : policy[field.key]}
+                onChange={(e) => updateField(field.key, e.target.value)}
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-indigo-500"
+              />
+              <span className="block text-[11px] text-slate-500 mt-1">{field.hint}</span>
+            </label>
+          ))}
+          {categories.map(category => (
+            <label key={category.id} className="block">
+              <span className="block text-sm text-slate-300 mb-1">{category.name} hours multiplier</span>
+              <input
+                type="number"
+                step={0.1}
+                min={0}
+                value={Number.isNaN(policy.categoryMultipliers[category.id]) ? '' : policy.categoryMultipliers[category.id] ?? 1}
+                onChange={(e) => updateMultiplier(category.id, e.target.value)}
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-indigo-500"
+              />
+              <span className="block text-[11px] text-slate-500 mt-1">How much each verified {category.name.toLowerCase()} hour counts towards the goal</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-3 mt-6">
+          <button
+            onClick={handlePreview}
+            disabled={isBusy}
+            className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-200 text-sm font-medium disabled:opacity-50"
+          >
+            Preview
+          </button>
+          <button
+            onClick={() => handleSave(false)}
+            disabled={isBusy}
+            className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium disabled:opacity-50"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => handleSave(true)}
+            disabled={isBusy}
+            className="px-4 py-2 rounded-lg border border-indigo-600 text-indigo-300 hover:bg-indigo-950/50 text-sm font-medium disabled:opacity-50"
+          >
+            Save &amp; re-score past weeks
+          </button>
+          {isBusy && <Icons.Loader className="w-5 h-5 text-indigo-500 animate-spin self-center" />}
+        </div>
+      </div>
+
+      {preview && (
+        <div className="bg-slate-900 p-6 rounded-2xl border border-slate-800">
+          <h3 className="text-lg font-semibold text-white mb-4">Old vs New Ratings</h3>
+          {preview.length === 0 ? (
+            <p className="text-sm text-slate-500 italic">No weeks recorded yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-800">
+                  <th className="py-2 font-medium">Week</th>
+                  <th className="py-2 font-medium text-right">Current</th>
+                  <th className="py-2 font-medium text-right">New</th>
+                  <th className="py-2 font-medium text-right">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map(row => {
+                  const change = Math.round((row.newRating - row.oldRating) * 10) / 10;
+                  return (
+                    <tr key={row.weekId} className="border-b border-slate-800/50">
+                      <td className="py-2 text-slate-300">
+                        {row.weekId}
+                        {row.sealed && <span className="ml-2 text-[10px] uppercase text-slate-500">closed</span>}
+                      </td>
+                      <td className="py-2 text-right font-mono text-slate-400">{row.oldRating.toFixed(1)}</td>
+                      <td className="py-2 text-right font-mono text-white">{row.newRating.toFixed(1)}</td>
+                      <td className={`py-2 text-right font-mono ${change > 0 ? 'text-green-400' : change < 0 ? 'text-red-400' : 'text-slate-500'}`}>
+                        {change > 0 ? '+' : ''}{change.toFixed(1)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+          <p className="text-xs text-slate-500 mt-3">Closed weeks only change if you choose &quot;Save &amp; re-score past weeks&quot;.</p>
+        </div>
+      )}
+    </div>
+  );
+};
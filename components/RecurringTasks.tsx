@@ -0,0 +1,304 @@
+import React, { useState } from 'react';
+import { Icons } from './Icons';
+import { Project, Task, TaskTemplate, UserProfile } from '../types';
+import { getLocalDateString, getUserTimeZone } from '../lib/dates';
+import { getCategory, resolveCategories } from '../lib/categories';
+import { RecurrenceRule, describeRRule, formatRRule, parseRRule } from '../lib/recurrence';
+
+interface RecurringTasksProps {
+  user: UserProfile;
+  templates: TaskTemplate[];
+  projects: Project[];
+  setTemplates: React.Dispatch<React.SetStateAction<TaskTemplate[]>>;
+  onTasksCreated: (tasks: Task[]) => void;
+  onClose: () => void;
+}
+
+type ScheduleKind = 'daily' | 'weekdays' | 'days' | 'interval';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const toRule = (kind: ScheduleKind, days: number[], interval: number): RecurrenceRule => {
+  switch (kind) {
+    case 'daily': return { freq: 'DAILY', interval: 1, byDay: [] };
+    case 'weekdays': return { freq: 'WEEKLY', interval: 1, byDay: [0, 1, 2, 3, 4] };
+    case 'days': return { freq: 'WEEKLY', interval: 1, byDay: [...days].sort() };
+    case 'interval': return { freq: 'DAILY', interval, byDay: [] };
+  }
+};
+
+const kindOf = (rule: RecurrenceRule): ScheduleKind => {
+  if (rule.freq === 'DAILY') return rule.interval === 1 ? 'daily' : 'interval';
+  return rule.byDay.join(',') === '0,1,2,3,4' ? 'weekdays' : 'days';
+};
+
+export const RecurringTasks: React.FC<RecurringTasksProps> = ({ user, templates, projects, setTemplates, onTasksCreated, onClose }) => {
+  const categories = resolveCategories(user);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [categoryId, setCategoryId] = useState(categories[0].id);
+  const [durationHours, setDurationHours] = useState(1);
+  const [projectId, setProjectId] = useState('');
+  const [kind, setKind] = useState<ScheduleKind>('daily');
+  const [days, setDays] = useState<number[]>([0, 2, 4]);
+  const [interval, setInterval] = useState(2);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const today = getLocalDateString(Date.now(), getUserTimeZone(user));
+
+  const openForm = (template?: TaskTemplate) => {
+    const rule = template ? parseRRule(template.rrule) : null;
+    setEditingId(template?.id || null);
+    setTitle(template?.title || '');
+    setDescription(template?.description || '');
+    setCategoryId(template?.categoryId || categories[0].id);
+    setDurationHours(template?.durationHours || 1);
+    setProjectId(template?.projectId || '');
+    setKind(rule ? kindOf(rule) : 'daily');
+    setDays(rule && rule.byDay.length > 0 ? rule.byDay : [0, 2, 4]);
+    setInterval(rule && rule.freq === 'DAILY' && rule.interval > 1 ? rule.interval : 2);
+    setIsFormOpen(true);
+  };
+
+  const saveTemplate = async (template: TaskTemplate) => {
+    const res = await fetch(`/api/users/${user.googleId}/templates`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(template)
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to save recurring task');
+    setTemplates(prev => prev.some(t => t.id === data.template.id)
+      ? prev.map(t => t.id === data.template.id ? data.template : t)
+      : [...prev, data.template]);
+    if (data.created.length > 0) onTasksCreated(data.created);
+  };
+
+  const handleSave = async () => {
+    if (!title.trim() || !(durationHours > 0)) return;
+    if (kind === 'days' && days.length === 0) {
+      alert("Pick at least one day.");
+      return;
+    }
+    const existing = templates.find(t => t.id === editingId);
+    setIsSaving(true);
+    try {
+      await saveTemplate({
+        id: existing?.id || crypto.randomUUID(),
+        title: title.trim(),
+        description,
+        categoryId,
+        durationHours,
+        projectId: projectId || undefined,
+        rrule: formatRRule(toRule(kind, days, interval)),
+        startDate: existing?.startDate || today,
+        createdAt: existing?.createdAt || Date.now(),
+        pausedAt: existing?.pausedAt,
+      });
+      setIsFormOpen(false);
+    } catch (error) {
+      alert((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePause = async (template: TaskTemplate) => {
+    try {
+      await saveTemplate({ ...template, pausedAt: template.pausedAt ? undefined : Date.now() });
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleDelete = async (template: TaskTemplate) => {
+    if (!confirm(`Stop repeating "${template.title}"? Tasks it already created are kept.`)) return;
+    try {
+      const res = await fetch(`/api/users/${user.googleId}/templates/${template.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json()).error || 'Failed to delete recurring task');
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const toggleDay = (day: number) => {
+    setDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 w-full max-w-lg rounded-2xl p-6 shadow-2xl max-h-[90vh] overflow-y-auto custom-scrollbar">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold text-white">{isFormOpen ? (editingId ? 'Edit Recurring Task' : 'New Recurring Task') : 'Recurring Tasks'}</h3>
+          {!isFormOpen && (
+            <button onClick={() => openForm()} className="text-sm text-indigo-300 hover:text-indigo-200 flex items-center gap-1">
+              <Icons.Plus className="w-4 h-4" /> Add
+            </button>
+          )}
+        </div>
+
+        {!isFormOpen ? (
+          <>
+            {templates.length === 0 ? (
+              <p className="text-sm text-slate-500 italic py-6 text-center">No recurring tasks yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {templates.map(template => {
+                  const rule = parseRRule(template.rrule);
+                  const category = getCategory(categories, template.categoryId);
+                  return (
+                    <div key={template.id} className={`flex items-center gap-3 bg-slate-950/50 border border-slate-800 rounded-lg p-3 ${template.pausedAt ? 'opacity-60' : ''}`}>
+                      <div className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: category.color }} title={category.name}></div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-slate-200 font-medium truncate">{template.title}</p>
+                        <p className="text-xs text-slate-500">
+                          {template.durationHours}h • {rule ? describeRRule(rule) : template.rrule}{template.pausedAt ? ' • Paused' : ''}
+                        </p>
+                      </div>
+                      <button onClick={() => openForm(template)} className="text-slate-500 hover:text-indigo-400 p-1 rounded hover:bg-slate-800" title="Edit">
+                        <Icons.Edit className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => handlePause(template)} className="text-slate-500 hover:text-slate-200 p-1 rounded hover:bg-slate-800" title={template.pausedAt ? 'Resume' : 'Pause'}>
+                        {template.pausedAt ? <Icons.Play className="w-4 h-4" /> : <Icons.Pause className="w-4 h-4" />}
+                      </button>
+                      <button onClick={() => handleDelete(template)} className="text-slate-500 hover:text-red-400 p-1 rounded hover:bg-slate-800" title="Delete">
+                        <Icons.Trash className="w-4 h-4" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            <p className="text-xs text-slate-500 mt-4">
+              A task is created on each scheduled day, unless the day has already reached your daily limit.
+            </p>
+            <div className="flex justify-end mt-6">
+              <button onClick={onClose} className="px-4 py-2 bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700">Close</button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm text-slate-400 mb-1">Title</label>
+                <input
+                  type="text"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-indigo-500"
+                  placeholder="e.g., DSA practice"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-slate-400 mb-1">Description</label>
+                <textarea
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-indigo-500 h-16 resize-none"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-slate-400 mb-1">Category</label>
+                  <select
+                    value={categoryId}
+                    onChange={(e) => setCategoryId(e.target.value)}
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-indigo-500"
+                  >
+                    {categories.map(category => <option key={category.id} value={category.id}>{category.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-slate-400 mb-1">Duration (Hours)</label>
+                  <input
+                    type="number"
+                    min="0.5"
+                    step="0.5"
+                    value={durationHours}
+                    onChange={(e) => setDurationHours(parseFloat(e.target.value))}
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-indigo-500"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm text-slate-400 mb-1">Repeats</label>
+                <select
+                  value={kind}
+                  onChange={(e) => setKind(e.target.value as ScheduleKind)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-indigo-500"
+                >
+                  <option value="daily">Every day</option>
+                  <option value="weekdays">Weekdays</option>
+                  <option value="days">On certain days</option>
+                  <option value="interval">Every few days</option>
+                </select>
+                {kind === 'days' && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {WEEKDAYS.map((label, day) => (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={() => toggleDay(day)}
+                        className={`px-2.5 py-1 rounded-lg text-xs font-medium border ${days.includes(day) ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {kind === 'interval' && (
+                  <div className="flex items-center gap-2 mt-2 text-sm text-slate-400">
+                    Every
+                    <input
+                      type="number"
+                      min="2"
+                      max="365"
+                      value={interval}
+                      onChange={(e) => setInterval(parseInt(e.target.value, 10) || 2)}
+                      className="w-20 bg-slate-800 border border-slate-700 rounded-lg px-3 py-1 text-white focus:outline-none focus:border-indigo-500"
+                    />
+                    days
+                  </div>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm text-slate-400 mb-1">Project (Optional)</label>
+                <select
+                  value={projectId}
+                  onChange={(e) => setProjectId(e.target.value)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-indigo-500"
+                >
+                  <option value="">No project</option>
+                  {projects.filter(p => !p.archivedAt || p.id === projectId).map(project => (
+                    <option key={project.id} value={project.id}>{project.name}</option>
+                  ))}
+                </select>
+              </div>
+              {editingId && (
+                <p className="text-xs text-slate-500">Changes apply from the next occurrence. Tasks already created stay as they are.</p>
+              )}
+            </div>
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={() => setIsFormOpen(false)}
+                className="flex-1 px-4 py-2 bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 font-medium disabled:opacity-50"
+              >
+                {editingId ? 'Save Changes' : 'Create'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import { Icons } from './Icons';
 import { UserProfile } from '../types';
 import Image from 'next/image';
@@ -9,14 +9,21 @@ interface SidebarProps {
   setView: (view: string) => void;
   onLogout: () => void;
   onUpdateGoal: (newGoal: number) => void;
+  onImport: (file: File) => void;
+  onDeleteAccount: () => void;
 }
 
-export const Sidebar: React.FC<SidebarProps> = ({ user, currentView, setView, onLogout, onUpdateGoal }) => {
+export const Sidebar: React.FC<SidebarProps> = ({ user, currentView, setView, onLogout, onUpdateGoal, onImport, onDeleteAccount }) => {
+  const importInput = useRef<HTMLInputElement>(null);
+  const exportUrl = `/api/users/${user.googleId}/export`;
+
   const navItems = [
     { id: 'dashboard', label: 'Dashboard', icon: Icons.Layout },
     { id: 'tasks', label: 'Tasks', icon: Icons.CheckCircle },
+    { id: 'projects', label: 'Projects', icon: Icons.Project },
     { id: 'screentime', label: 'Screen Time', icon: Icons.Smartphone },
     { id: 'history', label: 'History', icon: Icons.BarChart },
+    { id: 'settings', label: 'Settings', icon: Icons.Settings },
   ];
 
   const handleGoalClick = () => {
@@ -26,6 +33,22 @@ export const Sidebar: React.FC<SidebarProps> = ({ user, currentView, setView, on
     }
   };
 
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = '';
+  };
+
+  const handleDeleteClick = () => {
+    if (!confirm("Delete your account? All tasks, stats and screen time will be permanently removed.")) return;
+    const typed = prompt('This cannot be undone. Type DELETE to confirm:');
+    if (typed === 'DELETE') {
+      onDeleteAccount();
+    } else if (typed !== null) {
+      alert("Confirmation didn't match. Your account was not deleted.");
+    }
+  };
+
   return (
     <div className="fixed bottom-0 w-full md:w-64 md:h-screen bg-slate-900 border-t md:border-t-0 md:border-r border-slate-800 flex md:flex-col justify-between z-50">
       
@@ -68,6 +91,34 @@ export const Sidebar: React.FC<SidebarProps> = ({ user, currentView, setView, on
         ))}
       </nav>
 
+      {/* Export / Import */}
+      <div className="hidden md:block px-4 pt-4 border-t border-slate-800">
+        <p className="px-4 mb-2 text-xs font-semibold uppercase tracking-wider text-slate-500">Your Data</p>
+        <a
+          href={exportUrl}
+          className="flex items-center gap-3 w-full px-4 py-2 text-sm font-medium text-slate-400 hover:text-slate-200 hover:bg-slate-800 rounded-lg transition-colors"
+        >
+          <Icons.Download className="w-5 h-5" />
+          Export JSON
+        </a>
+        <div className="flex gap-2 px-4 py-1 text-xs text-slate-500">
+          CSV:
+          {(['tasks', 'stats', 'screentime', 'profile'] as const).map(entity => (
+            <a key={entity} href={`${exportUrl}?format=csv&entity=${entity}`} className="hover:text-indigo-400 hover:underline">
+              {entity}
+            </a>
+          ))}
+        </div>
+        <button
+          onClick={() => importInput.current?.click()}
+          className="flex items-center gap-3 w-full px-4 py-2 text-sm font-medium text-slate-400 hover:text-slate-200 hover:bg-slate-800 rounded-lg transition-colors"
+        >
+          <Icons.Upload className="w-5 h-5" />
+          Import JSON
+        </button>
+        <input ref={importInput} type="file" accept="application/json,.json" className="hidden" onChange={handleImportChange} />
+      </div>
+
       {/* Logout */}
       <div className="hidden md:block p-4 border-t border-slate-800">
         <button 
@@ -77,6 +128,13 @@ export const Sidebar: React.FC<SidebarProps> = ({ user, currentView, setView, on
           <Icons.LogOut className="w-5 h-5" />
           Sign Out
         </button>
+        <button
+          onClick={handleDeleteClick}
+          className="flex items-center gap-3 w-full px-4 py-2 mt-1 text-xs font-medium text-slate-500 hover:text-red-400 hover:bg-red-950/30 rounded-lg transition-colors"
+        >
+          <Icons.Trash className="w-4 h-4" />
+          Delete Account
+        </button>
       </div>
     </div>
   );
@@ -1,29 +1,55 @@
 import React, { useState, useMemo, useRef } from 'react';
+import Image from 'next/image';
+import imageCompression from 'browser-image-compression';
 import { Icons } from './Icons';
-import { Task, TaskType, VerificationStatus, UserProfile } from '../types';
-import { verifyTaskImage } from '../services/geminiService';
+import { Task, TaskCategory, VerificationStatus, UserProfile, VerificationAttempt, Project, TaskTemplate } from '../types';
+import { formatDate, getLocalDateString, getUserTimeZone } from '../lib/dates';
+import { MAX_PROOF_ITEMS, PROOF_ACCEPT, PROOF_SIZE_LIMITS, formatBytes, getProofKind } from '../lib/proof';
+import { QuickAddDraft, parseQuickAdd } from '../lib/quickAdd';
+import { CategoryIcon, getCategory, resolveCategories } from '../lib/categories';
+import { checkDailyLimit, describeBreach, getDailyLimit, getDayLoad, resolveDailyLimitPolicy } from '../lib/dailyLimit';
+import { RecurringTasks } from './RecurringTasks';
+import { FocusTimer } from './FocusTimer';
+import { trackedDuration } from '../lib/focus';
 
 interface TaskListProps {
   tasks: Task[];
+  projects: Project[];
+  templates: TaskTemplate[];
   user: UserProfile;
   setTasks: React.Dispatch<React.SetStateAction<Task[]>>;
-  updateCompletedHours: (hours: number) => void;
+  setTemplates: React.Dispatch<React.SetStateAction<TaskTemplate[]>>;
+  refreshStats: () => void;
 }
 
-export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updateCompletedHours }) => {
+export const TaskList: React.FC<TaskListProps> = ({ tasks, projects, templates, user, setTasks, setTemplates, refreshStats }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isRecurringOpen, setIsRecurringOpen] = useState(false);
+  const categories = resolveCategories(user);
   
   // New/Edit Task Form State
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [newTaskDesc, setNewTaskDesc] = useState('');
-  const [newTaskType, setNewTaskType] = useState<TaskType>(TaskType.WORK);
+  const [newTaskCategoryId, setNewTaskCategoryId] = useState(categories[0].id);
   const [newTaskDuration, setNewTaskDuration] = useState<number>(1);
+  const [newTaskPlannedFor, setNewTaskPlannedFor] = useState('');
+  const [newTaskProjectId, setNewTaskProjectId] = useState('');
   const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
   const [isVerifying, setIsVerifying] = useState(false);
   const [selectedTaskIds, setSelectedTaskIds] = useState<Set<string>>(new Set());
+  const [historyTask, setHistoryTask] = useState<Task | null>(null);
+  const [attempts, setAttempts] = useState<VerificationAttempt[] | null>(null);
+  const [appealTask, setAppealTask] = useState<Task | null>(null);
+  const [appealText, setAppealText] = useState('');
+  const [appealFiles, setAppealFiles] = useState<File[]>([]);
+  const [quickAddText, setQuickAddText] = useState('');
+  const [quickAddDraft, setQuickAddDraft] = useState<QuickAddDraft | null>(null);
+  const [isAssisting, setIsAssisting] = useState(false);
+
+  const editingTask = editingTaskId ? tasks.find(t => t.id === editingTaskId) : undefined;
 
   // Daily Limit Calculation
-  const dailyLimit = user.weeklyGoalHours / 7;
+  const dailyLimit = getDailyLimit(user, getLocalDateString(Date.now(), getUserTimeZone(user)));
 
   // --- MOTIVATIONAL QUOTES FOR EMPTY STATE ---
   const quotes = [
@@ -55,16 +81,10 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updat
     });
   }, [tasks]);
   
-  const todayTasks = useMemo(() => {
-    const todayStr = new Date().toDateString();
-    return tasks.filter(t => {
-        const createdToday = new Date(t.createdAt).toDateString() === todayStr;
-        const completedToday = t.completedAt ? new Date(t.completedAt).toDateString() === todayStr : false;
-        return (createdToday || completedToday) && t.status !== VerificationStatus.REJECTED;
-    });
-  }, [tasks]);
-
-  const todayUsed = todayTasks.reduce((acc, t) => acc + t.durationHours, 0);
+  const todayUsed = useMemo(() => {
+    const timeZone = getUserTimeZone(user);
+    return getDayLoad(tasks, getLocalDateString(Date.now(), timeZone), timeZone);
+  }, [tasks, user]);
 
   const formatTimeAgo = (timestamp: number | string) => {
     if (!timestamp) return '';
@@ -95,12 +115,44 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updat
   const openEditModal = (task: Task) => {
     setNewTaskTitle(task.title);
     setNewTaskDesc(task.description || '');
-    setNewTaskType(task.type);
+    setNewTaskCategoryId(task.categoryId);
     setNewTaskDuration(task.durationHours);
+    setNewTaskPlannedFor(task.plannedFor || '');
+    setNewTaskProjectId(task.projectId || '');
     setEditingTaskId(task.id);
     setIsModalOpen(true);
   };
 
+  // Applies the daily limit policy before a save. Returns null when the user
+  // backs out or the policy blocks it, else the justification to send (if any).
+  const confirmDailyLimit = (task: Task): { limitJustification?: string } | null => {
+    const breach = checkDailyLimit(user, tasks, task, getUserTimeZone(user));
+    if (!breach) return {};
+    switch (resolveDailyLimitPolicy(user).enforcement) {
+      case 'BLOCK':
+        alert(`${describeBreach(breach)} Your settings don't allow going over.`);
+        return null;
+      case 'JUSTIFY': {
+        const justification = prompt(`${describeBreach(breach)} Why do you need to go over?`);
+        return justification?.trim() ? { limitJustification: justification.trim() } : null;
+      }
+      default:
+        return confirm(`${describeBreach(breach)} Add it anyway?`) ? {} : null;
+    }
+  };
+
+  // The server applies the policy again and records any override on the task
+  const postTask = async (task: Task, extra: { limitJustification?: string }) => {
+    const res = await fetch(`/api/users/${user.googleId}/tasks`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...task, ...extra })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to save task');
+    setTasks(prev => prev.map(t => t.id === data.task.id ? data.task : t));
+  };
+
   const handleSaveTask = async () => {
     if (!newTaskTitle || newTaskDuration <= 0) return;
 
@@ -113,23 +165,24 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updat
             ...updatedTask,
             title: newTaskTitle,
             description: newTaskDesc,
-            type: newTaskType,
-            durationHours: newTaskDuration
+            categoryId: newTaskCategoryId,
+            durationHours: newTaskDuration,
+            plannedFor: newTaskPlannedFor || undefined,
+            projectId: newTaskProjectId || undefined
         };
+        const limit = confirmDailyLimit(finalTask);
+        if (!limit) return;
 
         setTasks(prev => prev.map(t => t.id === editingTaskId ? finalTask : t));
         setIsModalOpen(false);
         resetForm();
 
         try {
-          await fetch(`/api/users/${user.googleId}/tasks`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(finalTask)
-          });
+          await postTask(finalTask, limit);
         } catch (error) {
             console.error("Error updating task", error);
-            alert("Failed to update task.");
+            setTasks(prev => prev.map(t => t.id === updatedTask.id ? updatedTask : t));
+            alert(`Failed to update task: ${(error as Error).message}`);
         }
 
     } else {
@@ -139,22 +192,23 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updat
             id: tempId,
             title: newTaskTitle,
             description: newTaskDesc,
-            type: newTaskType,
+            categoryId: newTaskCategoryId,
             durationHours: newTaskDuration,
+            plannedFor: newTaskPlannedFor || undefined,
+            projectId: newTaskProjectId || undefined,
             createdAt: Date.now(),
             status: VerificationStatus.PENDING
         };
+        const limit = confirmDailyLimit(newTask);
+        if (!limit) return;
 
         setTasks(prev => [newTask, ...prev]);
         setIsModalOpen(false);
+        if (quickAddDraft) setQuickAddText('');
         resetForm();
 
         try {
-          await fetch(`/api/users/${user.googleId}/tasks`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(newTask)
-          });
+          await postTask(newTask, limit);
         } catch (error: any) {
             console.error("Error creating task", error);
             setTasks(prev => prev.filter(t => t.id !== tempId));
@@ -167,8 +221,47 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updat
     setNewTaskTitle('');
     setNewTaskDesc('');
     setNewTaskDuration(1);
-    setNewTaskType(TaskType.WORK);
+    setNewTaskCategoryId(categories[0].id);
+    setNewTaskPlannedFor('');
+    setNewTaskProjectId('');
     setEditingTaskId(null);
+    setQuickAddDraft(null);
+  };
+
+  const applyDraft = (draft: QuickAddDraft) => {
+    setNewTaskTitle(draft.title);
+    setNewTaskCategoryId(draft.categoryId);
+    setNewTaskDuration(draft.durationHours);
+    setNewTaskPlannedFor(draft.plannedFor || '');
+    setQuickAddDraft(draft);
+  };
+
+  // Quick-add parses locally and opens the task form for confirmation
+  const handleQuickAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quickAddText.trim()) return;
+    resetForm();
+    applyDraft(parseQuickAdd(quickAddText, getLocalDateString(Date.now(), getUserTimeZone(user)), categories));
+    setIsModalOpen(true);
+  };
+
+  const handleAssistDraft = async () => {
+    setIsAssisting(true);
+    try {
+      const res = await fetch(`/api/users/${user.googleId}/tasks/parse`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: quickAddText, assist: true })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to parse task");
+      applyDraft(data.draft);
+    } catch (error) {
+      console.error(error);
+      alert(`AI assist failed: ${(error as Error).message}`);
+    } finally {
+      setIsAssisting(false);
+    }
   };
 
   const toggleTaskSelection = (taskId: string) => {
@@ -195,18 +288,7 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updat
     if (selectedTaskIds.size === 0) return;
     if (!window.confirm(`Remove ${selectedTaskIds.size} selected task(s)?`)) return;
 
-    let hoursToDeduct = 0;
-    const tasksToDelete = tasks.filter(t => selectedTaskIds.has(t.id));
-    
-    tasksToDelete.forEach(t => {
-      if (t.status === VerificationStatus.VERIFIED) {
-        hoursToDeduct += t.durationHours;
-      }
-    });
-
-    if (hoursToDeduct > 0) {
-      updateCompletedHours(-hoursToDeduct);
-    }
+    const hadVerified = tasks.some(t => selectedTaskIds.has(t.id) && t.status === VerificationStatus.VERIFIED);
 
     setTasks(prev => prev.filter(t => !selectedTaskIds.has(t.id)));
     
@@ -216,6 +298,7 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updat
           fetch(`/api/users/${user.googleId}/tasks/${taskId}`, { method: 'DELETE' })
         )
       );
+      if (hadVerified) refreshStats();
     } catch (error) {
       console.error("Error deleting tasks", error);
     }
@@ -229,65 +312,130 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updat
 
     if (!window.confirm("Remove this task?")) return;
 
-    if (taskToDelete.status === VerificationStatus.VERIFIED) {
-      updateCompletedHours(-taskToDelete.durationHours);
-    }
-
     setTasks(prev => prev.filter(t => t.id !== taskId));
     try {
       await fetch(`/api/users/${user.googleId}/tasks/${taskId}`, { method: 'DELETE' });
+      if (taskToDelete.status === VerificationStatus.VERIFIED) refreshStats();
     } catch (error) {
       console.error("Error deleting task", error);
     }
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>, task: Task) => {
-    const file = e.target.files?.[0];
-    if (file) {
+  // Proofs are stored, so shrink images before upload and check every item
+  // against the same limits the server enforces
+  const prepareEvidence = async (original: File) => {
+    const kind = getProofKind(original.type);
+    if (!kind) throw new Error(`${original.name} isn't a supported file type`);
+
+    let file: Blob = original;
+    if (kind === 'image') {
+      try {
+        file = await imageCompression(original, { maxSizeMB: 0.5, maxWidthOrHeight: 1600, useWebWorker: true });
+      } catch (error) {
+        console.error("Image compression failed, uploading original", error);
+      }
+    }
+    if (file.size > PROOF_SIZE_LIMITS[kind]) {
+      throw new Error(`${original.name} is ${formatBytes(file.size)}; ${kind} files are limited to ${formatBytes(PROOF_SIZE_LIMITS[kind])}`);
+    }
+
+    const base64String = await new Promise<string>((resolve, reject) => {
       const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = reader.result as string;
-        const mimeType = base64String.split(';')[0].split(':')[1];
-        const base64Data = base64String.split(',')[1];
-        submitVerification(task, base64Data, mimeType);
-      };
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
       reader.readAsDataURL(file);
+    });
+    return {
+      data: base64String.split(',')[1],
+      mimeType: original.type
+    };
+  };
+
+  const handleEvidenceUpload = async (e: React.ChangeEvent<HTMLInputElement>, task: Task) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    if (files.length > MAX_PROOF_ITEMS) {
+      alert(`You can submit up to ${MAX_PROOF_ITEMS} files at once.`);
+      return;
+    }
+    try {
+      const items = await Promise.all(files.map(prepareEvidence));
+      submitVerification(task, items);
+    } catch (error) {
+      alert((error as Error).message);
     }
   };
 
-  const submitVerification = async (task: Task, base64Image: string, mimeType: string) => {
+  const submitVerification = async (task: Task, items: { data: string; mimeType: string }[]) => {
     setIsVerifying(true);
     const verifyingTask = { ...task, status: VerificationStatus.VERIFYING };
     setTasks(prev => prev.map(t => t.id === task.id ? verifyingTask : t));
     
     try {
-      const result = await verifyTaskImage(task.title, task.description, base64Image, mimeType);
-      const finalStatus = result.verified ? VerificationStatus.VERIFIED : VerificationStatus.REJECTED;
-      
-      const updatedTask: Task = {
-        ...task,
-        status: finalStatus,
-        completedAt: result.verified ? Date.now() : undefined,
-        rejectionReason: result.verified ? undefined : result.reason
-      };
-      
-      setTasks(prev => prev.map(t => t.id === task.id ? updatedTask : t));
-      if (result.verified) updateCompletedHours(task.durationHours);
-      
-      await fetch(`/api/users/${user.googleId}/tasks`, {
+      const res = await fetch(`/api/users/${user.googleId}/tasks/${task.id}/verify`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(updatedTask)
+        body: JSON.stringify({ items })
       });
+      if (!res.ok) throw new Error((await res.json()).error || "Verification request failed");
+      const result: { task: Task; verified: boolean } = await res.json();
+
+      setTasks(prev => prev.map(t => t.id === task.id ? result.task : t));
+      if (result.verified) refreshStats();
     } catch (error) {
       console.error("Verification error", error);
-      alert("Verification failed.");
+      alert(`Verification failed: ${(error as Error).message}`);
       setTasks(prev => prev.map(t => t.id === task.id ? task : t));
     } finally {
       setIsVerifying(false);
     }
   };
 
+  const openAppeal = (task: Task) => {
+    setAppealTask(task);
+    setAppealText('');
+    setAppealFiles([]);
+  };
+
+  const submitAppeal = async () => {
+    if (!appealTask || !appealText.trim()) return;
+    const task = appealTask;
+    setAppealTask(null);
+    setTasks(prev => prev.map(t => t.id === task.id ? { ...task, status: VerificationStatus.APPEALED } : t));
+
+    try {
+      const items = await Promise.all(appealFiles.map(prepareEvidence));
+      const res = await fetch(`/api/users/${user.googleId}/tasks/${task.id}/appeal`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ justification: appealText, items })
+      });
+      if (!res.ok) throw new Error((await res.json()).error || "Appeal request failed");
+      const result: { task: Task; verified: boolean } = await res.json();
+
+      setTasks(prev => prev.map(t => t.id === task.id ? result.task : t));
+      refreshStats();
+    } catch (error) {
+      console.error("Appeal error", error);
+      alert(`Appeal failed: ${(error as Error).message}`);
+      setTasks(prev => prev.map(t => t.id === task.id ? task : t));
+    }
+  };
+
+  const openHistory = async (task: Task) => {
+    setHistoryTask(task);
+    setAttempts(null);
+    try {
+      const res = await fetch(`/api/users/${user.googleId}/tasks/${task.id}/verifications`);
+      if (!res.ok) throw new Error("Failed to load verification history");
+      setAttempts(await res.json());
+    } catch (error) {
+      console.error(error);
+      setAttempts([]);
+    }
+  };
+
   return (
     <div className="pb-20 md:pb-0 h-full overflow-y-auto custom-scrollbar pr-2">
       <div className="flex justify-between items-center mb-6">
@@ -315,6 +463,13 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updat
               Delete ({selectedTaskIds.size})
             </button>
           )}
+          <button
+            onClick={() => setIsRecurringOpen(true)}
+            className="bg-slate-800 hover:bg-slate-700 text-slate-200 px-4 py-2 rounded-lg flex items-center gap-2 transition-colors font-medium"
+          >
+            <Icons.Repeat className="w-4 h-4" />
+            Recurring{templates.length > 0 ? ` (${templates.length})` : ''}
+          </button>
           <button 
             onClick={openCreateModal}
             className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors font-medium shadow-lg shadow-indigo-900/20"
@@ -325,6 +480,23 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updat
         </div>
       </div>
 
+      <form onSubmit={handleQuickAdd} className="mb-6 flex gap-2">
+        <input
+          type="text"
+          value={quickAddText}
+          onChange={(e) => setQuickAddText(e.target.value)}
+          placeholder='Quick add, e.g. "2.5h study linear algebra ch.4 tomorrow"'
+          className="flex-1 bg-slate-900 border border-slate-800 rounded-lg px-4 py-2 text-white text-sm focus:outline-none focus:border-indigo-500"
+        />
+        <button
+          type="submit"
+          disabled={!quickAddText.trim()}
+          className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-200 text-sm font-medium disabled:opacity-50"
+        >
+          Parse
+        </button>
+      </form>
+
       <div className="space-y-4">
         {visibleTasks.length === 0 && (
             <div className="flex flex-col items-center justify-center py-20 text-center">
@@ -354,7 +526,7 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updat
               </button>
             </div>
 
-            {task.status !== VerificationStatus.VERIFIED && task.status !== VerificationStatus.VERIFYING && (
+            {task.status !== VerificationStatus.VERIFIED && task.status !== VerificationStatus.VERIFYING && task.status !== VerificationStatus.APPEALED && (
                 <button 
                     onClick={() => openEditModal(task)}
                     className="absolute top-4 right-4 text-slate-500 hover:text-indigo-400 p-1 rounded hover:bg-slate-800 transition-colors"
@@ -366,14 +538,34 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updat
 
             <div className="flex-1 pl-8">
               <div className="flex items-center gap-3 mb-2">
-                <span className={`text-[10px] uppercase tracking-wider font-bold px-2 py-0.5 rounded ${task.type === TaskType.STUDY ? 'bg-indigo-950 text-indigo-400' : 'bg-teal-950 text-teal-400'}`}>
-                  {task.type === TaskType.STUDY ? 'Study' : 'Work'}
-                </span>
+                <CategoryBadge category={getCategory(categories, task.categoryId)} />
                 <span className="text-xs text-slate-500 flex items-center gap-1">
                   <Icons.Clock className="w-3 h-3" /> {task.durationHours}h
                 </span>
                 <span className="text-xs text-slate-600">•</span>
                 <span className="text-xs text-slate-500">{formatTimeAgo(task.createdAt)}</span>
+                {task.projectId && projects.some(p => p.id === task.projectId) && (
+                  <>
+                    <span className="text-xs text-slate-600">•</span>
+                    <span className="text-xs text-slate-400 flex items-center gap-1">
+                      <Icons.Project className="w-3 h-3" /> {projects.find(p => p.id === task.projectId)!.name}
+                    </span>
+                  </>
+                )}
+                {task.plannedFor && task.status !== VerificationStatus.VERIFIED && (
+                  <>
+                    <span className="text-xs text-slate-600">•</span>
+                    <span className="text-xs text-indigo-300">Planned {task.plannedFor}</span>
+                  </>
+                )}
+                {task.limitOverride && (
+                  <>
+                    <span className="text-xs text-slate-600">•</span>
+                    <span className="text-xs text-amber-400" title={task.limitOverride.justification || undefined}>
+                      Over limit ({task.limitOverride.loadHours}h / {task.limitOverride.limitHours}h)
+                    </span>
+                  </>
+                )}
               </div>
               <h3 className="text-lg font-bold text-slate-100 pr-8">{task.title}</h3>
               {task.description && <p className="text-slate-400 text-sm mt-1">{task.description}</p>}
@@ -382,6 +574,22 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updat
                   <Icons.Shield className="w-3 h-3" /> {task.rejectionReason}
                 </p>
               )}
+              {task.status === VerificationStatus.REJECTED && !task.appeal && (
+                <button
+                  onClick={() => openAppeal(task)}
+                  className="text-xs text-amber-400 hover:text-amber-300 hover:underline mt-2"
+                >
+                  Disagree? Appeal this decision
+                </button>
+              )}
+              {task.status === VerificationStatus.REJECTED && task.appeal?.outcome === VerificationStatus.REJECTED && (
+                <p className="text-xs text-slate-500 mt-2">Appeal rejected. Upload new proof to try again.</p>
+              )}
+              {task.status === VerificationStatus.VERIFIED && task.appeal?.outcome === VerificationStatus.VERIFIED && (
+                <p className="text-xs text-amber-400 mt-2 flex items-center gap-1">
+                  <Icons.Shield className="w-3 h-3" /> Verified on appeal
+                </p>
+              )}
             </div>
 
             <div className="flex items-center gap-3 w-full md:w-auto">
@@ -389,8 +597,19 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updat
                  <div className="flex items-center gap-2 text-green-400 font-bold text-sm bg-green-950/30 px-4 py-2 rounded-xl border border-green-900/30">
                     <Icons.CheckCircle className="w-4 h-4" /> Done
                  </div>
+               ) : task.status === VerificationStatus.APPEALED ? (
+                 <div className="flex items-center gap-2 text-amber-400 font-bold text-sm bg-amber-950/30 px-4 py-2 rounded-xl border border-amber-900/30">
+                    <Icons.Loader className="w-4 h-4 animate-spin" /> Appeal in review
+                 </div>
                ) : (
                  <div className="flex items-center gap-2 w-full">
+                    {task.status !== VerificationStatus.VERIFYING && (
+                      <FocusTimer
+                        user={user}
+                        task={task}
+                        onUpdated={(updated) => setTasks(prev => prev.map(t => updated.find(u => u.id === t.id) || t))}
+                      />
+                    )}
                     <label className={`flex-1 md:flex-none flex items-center justify-center gap-2 px-6 py-2.5 rounded-xl font-bold text-sm transition-all cursor-pointer ${
                       task.status === VerificationStatus.VERIFYING 
                       ? 'bg-slate-800 text-slate-500 cursor-not-allowed' 
@@ -400,8 +619,9 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updat
                           type="file" 
                           className="hidden" 
                           disabled={isVerifying || task.status === VerificationStatus.VERIFYING}
-                          onChange={(e) => handleImageUpload(e, task)}
-                          accept="image/*"
+                          onChange={(e) => handleEvidenceUpload(e, task)}
+                          accept={PROOF_ACCEPT}
+                          multiple
                         />
                         {task.status === VerificationStatus.VERIFYING ? (
                           <><Icons.Loader className="w-4 h-4 animate-spin" /> Verifying</>
@@ -411,6 +631,13 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updat
                     </label>
                  </div>
                )}
+               <button
+                onClick={() => openHistory(task)}
+                className="p-2.5 text-slate-600 hover:text-indigo-400 hover:bg-slate-800 rounded-xl transition-all"
+                title="Verification history"
+               >
+                <Icons.Eye className="w-5 h-5" />
+               </button>
                <button 
                 onClick={() => handleDeleteTask(task.id)}
                 className="p-2.5 text-slate-600 hover:text-red-400 hover:bg-red-950/20 rounded-xl transition-all"
@@ -422,11 +649,166 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updat
         ))}
       </div>
 
+      {/* Appeal Modal */}
+      {appealTask && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-slate-900 border border-slate-700 w-full max-w-md rounded-2xl p-6 shadow-2xl">
+            <h3 className="text-xl font-bold text-white mb-1">Appeal Rejection</h3>
+            <p className="text-sm text-slate-400 mb-4 truncate">{appealTask.title}</p>
+
+            <p className="text-xs text-red-400 mb-4 bg-red-950/20 p-2 rounded-lg border border-red-900/20">{appealTask.rejectionReason}</p>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm text-slate-400 mb-1">Why was this wrong?</label>
+                <textarea
+                  value={appealText}
+                  onChange={(e) => setAppealText(e.target.value)}
+                  maxLength={2000}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-indigo-500 h-28 resize-none"
+                  placeholder="Explain what the proof shows, or what the reviewer missed..."
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-slate-400 mb-1">Extra evidence (optional, up to {MAX_PROOF_ITEMS})</label>
+                <input
+                  type="file"
+                  accept={PROOF_ACCEPT}
+                  multiple
+                  onChange={(e) => setAppealFiles(Array.from(e.target.files || []).slice(0, MAX_PROOF_ITEMS))}
+                  className="w-full text-sm text-slate-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-slate-800 file:text-slate-300"
+                />
+              </div>
+              <p className="text-xs text-slate-500">Each rejection can be appealed once. The decision is final until you upload new proof.</p>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <button 
+                onClick={() => setAppealTask(null)}
+                className="flex-1 px-4 py-2 bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700"
+              >
+                Cancel
+              </button>
+              <button 
+                onClick={submitAppeal}
+                disabled={!appealText.trim()}
+                className="flex-1 px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Submit Appeal
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Verification History Modal */}
+      {historyTask && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-slate-900 border border-slate-700 w-full max-w-lg rounded-2xl p-6 shadow-2xl max-h-[80vh] flex flex-col">
+            <h3 className="text-xl font-bold text-white mb-1">Verification History</h3>
+            <p className="text-sm text-slate-400 mb-4 truncate">{historyTask.title}</p>
+
+            <div className="space-y-3 overflow-y-auto custom-scrollbar flex-1">
+              {attempts === null && (
+                <div className="flex justify-center py-8"><Icons.Loader className="w-6 h-6 text-indigo-500 animate-spin" /></div>
+              )}
+              {attempts?.length === 0 && (
+                <p className="text-sm text-slate-500 italic py-4 text-center">No verification attempts yet</p>
+              )}
+              {attempts?.map(attempt => (
+                <div key={attempt.id} className="bg-slate-800/50 border border-slate-700 rounded-xl p-3">
+                  <div className="flex items-center gap-2 mb-1">
+                    {attempt.kind === 'APPEAL' && (
+                      <span className="text-[10px] uppercase tracking-wider font-bold px-1.5 py-0.5 rounded bg-amber-950 text-amber-400">Appeal</span>
+                    )}
+                    {attempt.verdict === VerificationStatus.VERIFIED ? (
+                      <span className="text-xs font-bold text-green-400 flex items-center gap-1"><Icons.CheckCircle className="w-3 h-3" /> Approved</span>
+                    ) : (
+                      <span className="text-xs font-bold text-red-400 flex items-center gap-1"><Icons.XCircle className="w-3 h-3" /> Rejected</span>
+                    )}
+                    <span className="text-xs text-slate-500">
+                      {formatDate(attempt.attemptedAt, getUserTimeZone(user))} {new Date(attempt.attemptedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone: getUserTimeZone(user) })}
+                    </span>
+                  </div>
+                  {attempt.justification && (
+                    <p className="text-xs text-slate-400 italic mb-1">&quot;{attempt.justification}&quot;</p>
+                  )}
+                  <p className="text-sm text-slate-300">{attempt.reason}</p>
+                  {attempt.durationCheck && (
+                    <p className={`text-xs mt-1 ${attempt.durationCheck.flagged ? 'text-amber-400' : 'text-slate-500'}`}>
+                      Claimed {attempt.durationCheck.claimedHours}h, focus timer recorded {attempt.durationCheck.trackedHours}h
+                      {attempt.durationCheck.flagged ? ' — much more than was tracked' : ''}
+                    </p>
+                  )}
+
+                  <div className="mt-3 space-y-2">
+                    {(attempt.items || [{ evidenceHash: attempt.evidenceHash, mimeType: 'image/*' }]).map((item, index) => {
+                      const url = `/api/users/${user.googleId}/evidence/${item.evidenceHash}`;
+                      return (
+                        <div key={`${item.evidenceHash}-${index}`} className="flex gap-3 items-start">
+                          <a href={url} target="_blank" rel="noreferrer" className="shrink-0" title={`sha256:${item.evidenceHash}`}>
+                            {getProofKind(item.mimeType) === 'image' || item.mimeType === 'image/*' ? (
+                              <Image
+                                src={url}
+                                width={48}
+                                height={48}
+                                alt={`Proof ${index + 1}`}
+                                unoptimized
+                                className="w-12 h-12 rounded-lg object-cover border border-slate-700"
+                              />
+                            ) : (
+                              <div className="w-12 h-12 rounded-lg border border-slate-700 bg-slate-900 flex items-center justify-center text-[10px] font-bold uppercase text-slate-400">
+                                {getProofKind(item.mimeType) || 'file'}
+                              </div>
+                            )}
+                          </a>
+                          <p className="text-xs text-slate-400 pt-1">{item.note || <span className="italic text-slate-600">No notes</span>}</p>
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  <p className="text-[10px] text-slate-500 mt-2 font-mono">{attempt.model}</p>
+                </div>
+              ))}
+            </div>
+
+            <button 
+              onClick={() => setHistoryTask(null)}
+              className="mt-4 px-4 py-2 bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Create/Edit Task Modal */}
       {isModalOpen && (
         <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
           <div className="bg-slate-900 border border-slate-700 w-full max-w-md rounded-2xl p-6 shadow-2xl">
             <h3 className="text-xl font-bold text-white mb-4">{editingTaskId ? 'Edit Task' : 'New Task'}</h3>
+
+            {quickAddDraft && (
+              <div className="mb-4 text-xs bg-indigo-950/30 border border-indigo-900/50 rounded-lg p-3 space-y-2">
+                <p className="text-slate-300">Parsed from &quot;{quickAddText}&quot;. Check the fields before creating.</p>
+                {quickAddDraft.missing.length > 0 && (
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-amber-400">
+                      Not found: {quickAddDraft.missing.map(field => ({ categoryId: 'category', durationHours: 'duration', plannedFor: 'date' })[field]).join(', ')}
+                    </span>
+                    <button
+                      onClick={handleAssistDraft}
+                      disabled={isAssisting}
+                      className="text-indigo-300 hover:text-indigo-200 hover:underline disabled:opacity-50 flex items-center gap-1"
+                    >
+                      {isAssisting && <Icons.Loader className="w-3 h-3 animate-spin" />}
+                      Fill in with AI
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
             
             <div className="space-y-4">
               <div>
@@ -452,28 +834,65 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updat
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                   <label className="block text-sm text-slate-400 mb-1">Type</label>
+                   <label className="block text-sm text-slate-400 mb-1">Category</label>
                    <select 
-                    value={newTaskType}
-                    onChange={(e) => setNewTaskType(e.target.value as TaskType)}
+                    value={newTaskCategoryId}
+                    onChange={(e) => setNewTaskCategoryId(e.target.value)}
                     className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-indigo-500"
                    >
-                     <option value={TaskType.STUDY}>Study</option>
-                     <option value={TaskType.WORK}>Work</option>
+                     {categories.map(category => (
+                       <option key={category.id} value={category.id}>{category.name}</option>
+                     ))}
+                     {!categories.some(c => c.id === newTaskCategoryId) && (
+                       <option value={newTaskCategoryId}>{getCategory(categories, newTaskCategoryId).name}</option>
+                     )}
                    </select>
                 </div>
                 <div>
                    <label className="block text-sm text-slate-400 mb-1">Duration (Hours)</label>
                    <input 
                     type="number" 
-                    min="0.5"
-                    step="0.5"
+                    min="0.25"
+                    step="0.25"
                     value={newTaskDuration}
                     onChange={(e) => setNewTaskDuration(parseFloat(e.target.value))}
                     className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-indigo-500"
                    />
+                   {editingTask && trackedDuration(editingTask) !== null && trackedDuration(editingTask) !== newTaskDuration && (
+                     <button
+                       type="button"
+                       onClick={() => setNewTaskDuration(trackedDuration(editingTask)!)}
+                       className="text-[11px] text-indigo-300 hover:underline mt-1"
+                     >
+                       Use tracked time ({trackedDuration(editingTask)}h)
+                     </button>
+                   )}
                 </div>
               </div>
+
+              <div>
+                <label className="block text-sm text-slate-400 mb-1">Planned For (Optional)</label>
+                <input
+                  type="date"
+                  value={newTaskPlannedFor}
+                  onChange={(e) => setNewTaskPlannedFor(e.target.value)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-indigo-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm text-slate-400 mb-1">Project (Optional)</label>
+                <select
+                  value={newTaskProjectId}
+                  onChange={(e) => setNewTaskProjectId(e.target.value)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-indigo-500"
+                >
+                  <option value="">No project</option>
+                  {projects.filter(p => !p.archivedAt || p.id === newTaskProjectId).map(project => (
+                    <option key={project.id} value={project.id}>{project.name}</option>
+                  ))}
+                </select>
+              </div>
             </div>
 
             <div className="flex gap-3 mt-6">
@@ -493,6 +912,30 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, user, setTasks, updat
           </div>
         </div>
       )}
+
+      {isRecurringOpen && (
+        <RecurringTasks
+          user={user}
+          templates={templates}
+          projects={projects}
+          setTemplates={setTemplates}
+          onTasksCreated={(created) => setTasks(prev => [...created, ...prev])}
+          onClose={() => setIsRecurringOpen(false)}
+        />
+      )}
     </div>
   );
 };
+
+const CategoryBadge: React.FC<{ category: TaskCategory }> = ({ category }) => {
+  const Icon = Icons[category.icon as CategoryIcon] || Icons.Tag;
+  return (
+    <span
+      className="text-[10px] uppercase tracking-wider font-bold px-2 py-0.5 rounded flex items-center gap-1"
+      style={{ color: category.color, backgroundColor: `${category.color}1f` }}
+    >
+      <Icon className="w-3 h-3" />
+      {category.name}
+    </span>
+  );
+};
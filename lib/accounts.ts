@@ -0,0 +1,53 @@
+import { Store, scanKeys } from '@/lib/store';
+import { keys, authKeys } from '@/lib/keys';
+
+export interface Tombstone {
+  deletedAt: number;
+}
+
+export interface PurgeResult {
+  userId: string;
+  deletedKeys: number;
+  tombstone: Tombstone;
+}
+
+export async function getTombstone(store: Store, userId: string): Promise<Tombstone | null> {
+  return store.get<Tombstone>(keys.tombstone(userId));
+}
+
+// Adapter sessions and accounts are keyed by token / provider id, and the
+// by-user-id pointers only remember the latest one, so find the rest by owner.
+const findOwnedAuthKeys = async (store: Store, pattern: string, userId: string) => {
+  const owned: string[] = [];
+  for (const key of await scanKeys(store, pattern)) {
+    if (key.includes(':by-user-id:')) continue;
+    const record = await store.get<{ userId?: string }>(key);
+    if (record && typeof record === 'object' && record.userId === userId) owned.push(key);
+  }
+  return owned;
+};
+
+// Removes every key that belongs to the user: app data under user:{id}:* and
+// the NextAuth user, email, account and session records. A tombstone is left
+// behind (with no personal data) so the id can't be used again.
+export async function purgeUser(store: Store, userId: string, now: Date = new Date()): Promise<PurgeResult> {
+  const authUser = await store.get<{ email?: string }>(authKeys.user(userId));
+
+  const doomed = [
+    ...await scanKeys(store, `user:${userId}:*`),
+    authKeys.user(userId),
+    authKeys.accountByUserId(userId),
+    authKeys.sessionByUserId(userId),
+    ...await findOwnedAuthKeys(store, authKeys.accounts, userId),
+    ...await findOwnedAuthKeys(store, authKeys.sessions, userId),
+  ];
+  if (authUser?.email && await store.get(authKeys.email(authUser.email)) === userId) {
+    doomed.push(authKeys.email(authUser.email));
+  }
+
+  const tombstone: Tombstone = { deletedAt: now.getTime() };
+  await store.set(keys.tombstone(userId), tombstone);
+  const deletedKeys = await store.del(...Array.from(new Set(doomed)));
+
+  return { userId, deletedKeys, tombstone };
+}
@@ -1,10 +1,24 @@
 import { NextAuthOptions } from "next-auth"
 import GoogleProvider from "next-auth/providers/google"
 import { UpstashRedisAdapter } from "@next-auth/upstash-redis-adapter"
+import type { Redis } from "@upstash/redis"
 import redis from "@/lib/redis"
 
+// The only commands the adapter sends. Every storage driver mimics Upstash's
+// serialisation for them, so the store can stand in for an Upstash client.
+type AdapterClient = Pick<Redis, 'get' | 'set' | 'del'>;
+
+const adapterClient: AdapterClient = {
+  get: key => redis.get(key),
+  set: async (key, value) => {
+    await redis.set(key, value);
+    return "OK";
+  },
+  del: (...keys) => redis.del(...keys),
+};
+
 export const authOptions: NextAuthOptions = {
-  adapter: UpstashRedisAdapter(redis),
+  adapter: UpstashRedisAdapter(adapterClient as Redis),
   providers: [
     GoogleProvider({
       clientId: process.env.GOOGLE_CLIENT_ID || "",
@@ -0,0 +1,69 @@
+// Task categories, shared by the browser and the API.
+
+import { TaskCategory } from '@/types';
+
+// Icons a category can use; every name is an entry in components/Icons.tsx
+export const CATEGORY_ICONS = [
+  'GraduationCap',
+  'Briefcase',
+  'BookOpen',
+  'Dumbbell',
+  'Code',
+  'Languages',
+  'Music',
+  'Palette',
+  'Brain',
+  'Heart',
+  'Tag',
+] as const;
+
+export type CategoryIcon = typeof CATEGORY_ICONS[number];
+
+export const MAX_CATEGORIES = 12;
+
+export const DEFAULT_CATEGORIES: TaskCategory[] = [
+  { id: 'study', name: 'Study', color: '#818cf8', icon: 'GraduationCap' },
+  { id: 'work', name: 'Work', color: '#2dd4bf', icon: 'Briefcase' },
+];
+
+// Before categories, every task had one of two types
+const LEGACY_TYPE_CATEGORIES: Record<string, string> = {
+  'Study/Learning': 'study',
+  'Work/Projects': 'work',
+};
+
+// Shown for tasks whose category was removed
+const UNCATEGORISED: TaskCategory = { id: '', name: 'Uncategorised', color: '#64748b', icon: 'Tag' };
+
+export const resolveCategories = (profile?: { categories?: TaskCategory[] } | null): TaskCategory[] =>
+  profile?.categories && profile.categories.length > 0 ? profile.categories : DEFAULT_CATEGORIES;
+
+export const getCategory = (categories: TaskCategory[], id: string): TaskCategory =>
+  categories.find(category => category.id === id) || { ...UNCATEGORISED, id };
+
+// Lower-case slug of the name, made unique among `taken` ids
+export const createCategoryId = (name: string, taken: string[]) => {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 24) || 'category';
+  let id = base;
+  for (let n = 2; taken.includes(id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+// Converts a task record written with the old `type` field. Used by the
+// schema migration and when importing an older export.
+export const upgradeLegacyTask = (record: Record<string, unknown>): Record<string, unknown> => {
+  if (record.categoryId !== undefined || record.type === undefined) return record;
+  const { type, ...rest } = record;
+  return { ...rest, categoryId: LEGACY_TYPE_CATEGORIES[String(type)] || 'work' };
+};
+
+// Same for a rating policy written with per-type multipliers
+export const upgradeLegacyRatingPolicy = (policy: Record<string, unknown>): Record<string, unknown> => {
+  if (policy.categoryMultipliers !== undefined || policy.typeMultipliers === undefined) return policy;
+  const { typeMultipliers, ...rest } = policy;
+  const byType = (typeMultipliers || {}) as Record<string, unknown>;
+  return {
+    ...rest,
+    categoryMultipliers: Object.fromEntries(Object.entries(byType).map(([type, value]) => [LEGACY_TYPE_CATEGORIES[type] || type, value])),
+  };
+};
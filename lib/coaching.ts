@@ -0,0 +1,195 @@
+import repos from '@/lib/repositories';
+import { deriveWeekTotals } from '@/lib/weeklyStats';
+import { getCategory, resolveCategories } from '@/lib/categories';
+import { getLocalDateString, getUserTimeZone, getWeekDateString, getWeekId } from '@/lib/dates';
+import { writeCoachingReport } from '@/services/geminiService';
+import {
+  CoachingReport,
+  ScreenTimeEntry,
+  Task,
+  TaskCategory,
+  VerificationAttempt,
+  VerificationStatus,
+  WeeklyStats,
+} from '@/types';
+
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+const PREVIOUS_WEEKS = 4;
+const MAX_REJECTIONS = 10;
+const SLIP_THRESHOLD = 0.75; // Below this share of the recent average a category has slipped
+
+export interface CoachingFacts {
+  weekId: string;
+  goalHours: number;
+  completedHours: number;
+  screenTimeHours: number;
+  rating: number;
+  days: { date: string; weekday: string; verifiedHours: number; screenTimeHours: number }[];
+  verifiedTasks: { title: string; category: string; hours: number; date: string }[];
+  rejections: { title: string; reason: string }[];
+  categories: { id: string; name: string; hours: number; averageHours: number }[]; // Average over the previous weeks
+  limitOverrides: { date: string; title: string; loadHours: number; limitHours: number; justification?: string }[]; // Tasks added past the daily limit
+  previousWeeks: { weekId: string; goalHours: number; completedHours: number; rating: number }[];
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const roundHalf = (value: number) => Math.round(value * 2) / 2;
+
+// Everything the report may talk about, computed from stored data only.
+export const buildCoachingFacts = (
+  week: WeeklyStats,
+  history: WeeklyStats[],
+  tasks: Task[],
+  screentime: ScreenTimeEntry[],
+  attempts: VerificationAttempt[],
+  timeZone: string,
+  categories: TaskCategory[]
+): CoachingFacts => {
+  const inWeek = (instant: number) => getWeekId(instant, timeZone) === week.weekId;
+  const verified = tasks
+    .filter(t => t.status === VerificationStatus.VERIFIED && t.completedAt && inWeek(t.completedAt))
+    .sort((a, b) => a.completedAt! - b.completedAt!);
+
+  const days = WEEKDAYS.map((weekday, index) => {
+    const date = getWeekDateString(week.weekId, index);
+    return {
+      date,
+      weekday,
+      verifiedHours: round1(verified.filter(t => getLocalDateString(t.completedAt!, timeZone) === date).reduce((acc, t) => acc + t.durationHours, 0)),
+      screenTimeHours: round1(screentime.filter(st => st.date === date).reduce((acc, st) => acc + st.hours, 0)),
+    };
+  });
+
+  const titles = Object.fromEntries(tasks.map(t => [t.id, t.title]));
+  const rejections = attempts
+    .filter(a => a.verdict === VerificationStatus.REJECTED && inWeek(a.attemptedAt))
+    .slice(-MAX_REJECTIONS)
+    .map(a => ({ title: titles[a.taskId] || 'Deleted task', reason: a.reason }));
+
+  const previous = history
+    .filter(w => w.weekId < week.weekId)
+    .sort((a, b) => b.weekId.localeCompare(a.weekId))
+    .slice(0, PREVIOUS_WEEKS);
+  const hoursByCategory = deriveWeekTotals(week.weekId, tasks, screentime, timeZone).hoursByCategory;
+  const previousCategoryHours = previous.map(w => deriveWeekTotals(w.weekId, tasks, screentime, timeZone).hoursByCategory);
+  const averageHours = (id: string) => previous.length > 0
+    ? round1(previousCategoryHours.reduce((acc, hours) => acc + (hours[id] || 0), 0) / previous.length)
+    : 0;
+
+  return {
+    weekId: week.weekId,
+    goalHours: week.goalHours,
+    completedHours: round1(week.completedHours),
+    screenTimeHours: round1(week.screenTimeHours),
+    rating: week.rating,
+    days,
+    verifiedTasks: verified.map(t => ({
+      title: t.title,
+      category: getCategory(categories, t.categoryId).name,
+      hours: t.durationHours,
+      date: getLocalDateString(t.completedAt!, timeZone),
+    })),
+    rejections,
+    categories: categories.map(c => ({ id: c.id, name: c.name, hours: round1(hoursByCategory[c.id] || 0), averageHours: averageHours(c.id) })),
+    limitOverrides: tasks
+      .filter(t => t.limitOverride && days.some(d => d.date === t.limitOverride!.date))
+      .sort((a, b) => a.limitOverride!.date.localeCompare(b.limitOverride!.date))
+      .map(t => ({
+        date: t.limitOverride!.date,
+        title: t.title,
+        loadHours: t.limitOverride!.loadHours,
+        limitHours: t.limitOverride!.limitHours,
+        justification: t.limitOverride!.justification,
+      })),
+    previousWeeks: previous.map(w => ({ weekId: w.weekId, goalHours: w.goalHours, completedHours: round1(w.completedHours), rating: w.rating })),
+  };
+};
+
+// Raise the goal by 10% after two met weeks in a row, lower it to what was
+// actually done after a week under 70%, otherwise keep it.
+export const recommendGoal = (facts: CoachingFacts) => {
+  const met = (completed: number, goal: number) => completed >= goal;
+  const lastWeek = facts.previousWeeks[0];
+  if (met(facts.completedHours, facts.goalHours) && lastWeek && met(lastWeek.completedHours, lastWeek.goalHours)) {
+    return roundHalf(facts.goalHours * 1.1);
+  }
+  if (facts.completedHours < facts.goalHours * 0.7) {
+    const recent = [facts.completedHours, ...facts.previousWeeks.slice(0, 2).map(w => w.completedHours)];
+    const average = recent.reduce((acc, hours) => acc + hours, 0) / recent.length;
+    return Math.max(1, Math.min(facts.goalHours, roundHalf(average)));
+  }
+  return facts.goalHours;
+};
+
+// The day with the fewest verified hours; ties go to the one with more screen time
+export const findWeakestDay = (facts: CoachingFacts) =>
+  [...facts.days].sort((a, b) => a.verifiedHours - b.verifiedHours || b.screenTimeHours - a.screenTimeHours)[0];
+
+export const findSlippedCategories = (facts: CoachingFacts) =>
+  facts.categories.filter(c => c.averageHours > 0 && c.hours < c.averageHours * SLIP_THRESHOLD);
+
+// Report written from the facts alone, used when no model is configured or
+// the model call fails. The recommendations here are reused by model reports.
+export const buildTemplateReport = (facts: CoachingFacts, now: number = Date.now()): CoachingReport => {
+  const recommendedGoalHours = recommendGoal(facts);
+  const weakest = findWeakestDay(facts);
+  const slipped = findSlippedCategories(facts);
+  const percent = facts.goalHours > 0 ? Math.round((facts.completedHours / facts.goalHours) * 100) : 0;
+
+  const retrospective = [
+    `You verified ${facts.completedHours}h of your ${facts.goalHours}h goal (${percent}%) across ${facts.verifiedTasks.length} task${facts.verifiedTasks.length === 1 ? '' : 's'}, for a rating of ${facts.rating}/10.`,
+    facts.rejections.length > 0
+      ? `${facts.rejections.length} submission${facts.rejections.length === 1 ? ' was' : 's were'} rejected, most recently "${facts.rejections[facts.rejections.length - 1].title}".`
+      : 'No submissions were rejected.',
+    `Screen time came to ${facts.screenTimeHours}h.`,
+  ].join(' ');
+
+  const suggestions = [
+    recommendedGoalHours > facts.goalHours
+      ? `You met your goal two weeks running; try ${recommendedGoalHours}h next week.`
+      : recommendedGoalHours < facts.goalHours
+        ? `Set a goal of ${recommendedGoalHours}h next week to rebuild momentum, then raise it again.`
+        : `Keep your goal at ${facts.goalHours}h next week.`,
+    weakest.verifiedHours === 0
+      ? `${weakest.weekday} had no verified work; plan one task for it in advance.`
+      : `${weakest.weekday} was your lightest day (${weakest.verifiedHours}h); schedule a longer block then.`,
+    ...slipped.map(c => `${c.name} dropped to ${c.hours}h from a recent average of ${c.averageHours}h.`),
+    ...(facts.limitOverrides.length > 0
+      ? [`You went over your daily limit ${facts.limitOverrides.length} time${facts.limitOverrides.length === 1 ? '' : 's'}; spread that work over lighter days instead.`]
+      : []),
+    ...(facts.rejections.length > 0 ? [`Check the rejection reasons before uploading proof: "${facts.rejections[facts.rejections.length - 1].reason}"`] : []),
+  ];
+
+  return {
+    weekId: facts.weekId,
+    generatedAt: now,
+    generatedBy: 'template',
+    retrospective,
+    suggestions,
+    recommendedGoalHours,
+    weakestDay: weakest.date,
+    slippedCategories: slipped.map(c => c.id),
+    limitOverrides: facts.limitOverrides,
+  };
+};
+
+// Writes and stores the report for a stored week, replacing any earlier one.
+// Returns null when the week doesn't exist.
+export async function generateWeeklyReport(userId: string, weekId: string): Promise<CoachingReport | null> {
+  const history = await repos.stats.list(userId);
+  const week = history.find(w => w.weekId === weekId);
+  if (!week) return null;
+
+  const profile = await repos.profiles.get(userId);
+  const facts = buildCoachingFacts(
+    week,
+    history,
+    await repos.tasks.list(userId),
+    await repos.screentime.list(userId),
+    await repos.verifications.list(userId),
+    getUserTimeZone(profile),
+    resolveCategories(profile)
+  );
+  const report = await writeCoachingReport(facts, buildTemplateReport(facts));
+  return repos.reports.save(userId, report);
+}
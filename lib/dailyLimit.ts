@@ -0,0 +1,99 @@
+// The daily load limit and how it is enforced. Shared by the task list and
+// the server.
+
+import { getDayIndexFromDateString, getLocalDateString } from '@/lib/dates';
+import { DailyLimitPolicy, LimitOverride, Task, VerificationStatus } from '@/types';
+
+export const DEFAULT_DAILY_LIMIT_POLICY: DailyLimitPolicy = {
+  enforcement: 'WARN',
+};
+
+export const resolveDailyLimitPolicy = (profile?: { dailyLimitPolicy?: DailyLimitPolicy } | null): DailyLimitPolicy => ({
+  ...DEFAULT_DAILY_LIMIT_POLICY,
+  ...profile?.dailyLimitPolicy,
+});
+
+// The weekday's own limit when set, otherwise an even share of the weekly goal
+export const getDailyLimit = (profile: { weeklyGoalHours: number; dailyLimitPolicy?: DailyLimitPolicy }, date: string) =>
+  resolveDailyLimitPolicy(profile).weekdayHours?.[getDayIndexFromDateString(date)] ?? profile.weeklyGoalHours / 7;
+
+// Local day a task is meant for: its planned day, else the day it was added
+const getTaskDay = (task: Task, timeZone: string) => task.plannedFor || getLocalDateString(task.createdAt, timeZone);
+
+// Whether a task takes hours on a local day: it is meant for or completed
+// that day, and wasn't rejected
+const countsOnDay = (task: Task, date: string, timeZone: string) => {
+  const meantForThatDay = getTaskDay(task, timeZone) === date;
+  const completedThatDay = task.completedAt ? getLocalDateString(task.completedAt, timeZone) === date : false;
+  return (meantForThatDay || completedThatDay) && task.status !== VerificationStatus.REJECTED;
+};
+
+// Hours already taken on a local day
+export const getDayLoad = (tasks: Task[], date: string, timeZone: string) =>
+  tasks
+    .filter(t => countsOnDay(t, date, timeZone))
+    .reduce((acc, t) => acc + t.durationHours, 0);
+
+export interface LimitBreach {
+  date: string;
+  limitHours: number;
+  loadHours: number; // The day's load with the task saved
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Whether saving `task` (new or edited) adds load to `date`, by default the
+// day it is meant for, past its limit. Null when it stays within the limit,
+// or doesn't add to a day already over.
+export const checkDailyLimit = (
+  profile: { weeklyGoalHours: number; dailyLimitPolicy?: DailyLimitPolicy },
+  tasks: Task[],
+  task: Task,
+  timeZone: string,
+  date = getTaskDay(task, timeZone)
+): LimitBreach | null => {
+  const before = round2(getDayLoad(tasks, date, timeZone));
+  const loadHours = round2(getDayLoad([...tasks.filter(t => t.id !== task.id), task], date, timeZone));
+  const limitHours = round2(getDailyLimit(profile, date));
+  return loadHours > limitHours && loadHours > before ? { date, limitHours, loadHours } : null;
+};
+
+export const describeBreach = (breach: LimitBreach) =>
+  `This puts ${breach.date} at ${breach.loadHours}h, over its ${breach.limitHours}h daily limit.`;
+
+// The override already on `task`, as long as saving it leaves the task on the
+// override's day and that day over its limit. Undefined once an edit brings
+// the day back under.
+export const keepLimitOverride = (
+  profile: { weeklyGoalHours: number; dailyLimitPolicy?: DailyLimitPolicy },
+  tasks: Task[],
+  task: Task,
+  timeZone: string
+): LimitOverride | undefined => {
+  const { limitOverride } = task;
+  if (!limitOverride || !countsOnDay(task, limitOverride.date, timeZone)) return undefined;
+  const loadHours = round2(getDayLoad([...tasks.filter(t => t.id !== task.id), task], limitOverride.date, timeZone));
+  return loadHours > round2(getDailyLimit(profile, limitOverride.date)) ? limitOverride : undefined;
+};
+
+// For saves that can't be refused, like time the focus timer already tracked,
+// a verified task landing on the day it was completed or imported history: a
+// task that takes `date` past the limit is saved with the override recorded,
+// under whatever the policy is.
+export const recordLimitOverride = (
+  profile: { weeklyGoalHours: number; dailyLimitPolicy?: DailyLimitPolicy },
+  tasks: Task[],
+  task: Task,
+  timeZone: string,
+  date = getTaskDay(task, timeZone)
+): Task => {
+  const breach = checkDailyLimit(profile, tasks, task, timeZone, date);
+  if (!breach) return { ...task, limitOverride: keepLimitOverride(profile, tasks, task, timeZone) };
+  const limitOverride: LimitOverride = {
+    ...breach,
+    enforcement: resolveDailyLimitPolicy(profile).enforcement,
+    justification: task.limitOverride?.justification,
+    recordedAt: Date.now(),
+  };
+  return { ...task, limitOverride };
+};
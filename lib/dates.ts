@@ -0,0 +1,137 @@
+// ISO week helpers shared by the browser and the API. Every function that turns
+// an instant into a calendar day takes an explicit IANA time zone, so both sides
+// agree on which week a late-Sunday task belongs to. Calendar dates are plain
+// "YYYY-MM-DD" strings and week ids look like "2024-W07".
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const DAY_MS = 86400000;
+
+const formatters: Record<string, Intl.DateTimeFormat> = {};
+
+const getFormatter = (timeZone: string) => {
+  if (!formatters[timeZone]) {
+    formatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    });
+  }
+  return formatters[timeZone];
+};
+
+const getZonedParts = (instant: number, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(new Date(instant)).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  });
+  return parts;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toDateString = (utcMidnight: number) => {
+  const d = new Date(utcMidnight);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+};
+
+// Calendar dates are handled as UTC midnights so DST never shifts them
+const parseDateString = (date: string) => {
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  return Date.UTC(year, month - 1, day);
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getBrowserTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE;
+
+export const getUserTimeZone = (profile?: { timezone?: string } | null) =>
+  profile?.timezone && isValidTimeZone(profile.timezone) ? profile.timezone : DEFAULT_TIMEZONE;
+
+// Offset of the zone from UTC at the given instant, in ms
+const getTimeZoneOffset = (instant: number, timeZone: string) => {
+  const p = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - (instant - (((instant % 1000) + 1000) % 1000));
+};
+
+// The instant local midnight starts on a calendar date. Re-checks the offset
+// once in case the guess landed on the other side of a DST change.
+const getStartOfDate = (date: string, timeZone: string) => {
+  const guess = parseDateString(date);
+  const firstOffset = getTimeZoneOffset(guess, timeZone);
+  const instant = guess - firstOffset;
+  const secondOffset = getTimeZoneOffset(instant, timeZone);
+  return secondOffset === firstOffset ? instant : guess - secondOffset;
+};
+
+export const getLocalDateString = (instant: number | Date, timeZone: string) => {
+  const p = getZonedParts(new Date(instant).getTime(), timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+};
+
+export const addDays = (date: string, days: number) =>
+  toDateString(parseDateString(date) + days * DAY_MS);
+
+// Whole days from one YYYY-MM-DD to another; negative when `to` is earlier
+export const daysBetween = (from: string, to: string) =>
+  Math.round((parseDateString(to) - parseDateString(from)) / DAY_MS);
+
+// 0 = Monday ... 6 = Sunday
+export const getDayIndexFromDateString = (date: string) =>
+  (new Date(parseDateString(date)).getUTCDay() + 6) % 7;
+
+export const getDayIndex = (instant: number | Date, timeZone: string) =>
+  getDayIndexFromDateString(getLocalDateString(instant, timeZone));
+
+export const getWeekIdFromDateString = (date: string) => {
+  // The ISO week-year is the year of the week's Thursday
+  const thursday = new Date(parseDateString(date) + (3 - getDayIndexFromDateString(date)) * DAY_MS);
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const weekNo = Math.floor((thursday.getTime() - yearStart) / DAY_MS / 7) + 1;
+  return `${thursday.getUTCFullYear()}-W${pad(weekNo)}`;
+};
+
+export const getWeekId = (instant: number | Date, timeZone: string) =>
+  getWeekIdFromDateString(getLocalDateString(instant, timeZone));
+
+// Calendar date of a weekday (0 = Monday) inside an ISO week
+export const getWeekDateString = (weekId: string, dayIndex = 0) => {
+  const [year, week] = weekId.split('-W').map(part => parseInt(part, 10));
+  // January 4th is always in week 1
+  const jan4 = toDateString(Date.UTC(year, 0, 4));
+  return addDays(jan4, (week - 1) * 7 - getDayIndexFromDateString(jan4) + dayIndex);
+};
+
+export const getNextWeekId = (weekId: string) => getWeekIdFromDateString(getWeekDateString(weekId, 7));
+
+export const getPreviousWeekId = (weekId: string) => getWeekIdFromDateString(getWeekDateString(weekId, -7));
+
+// First instant of Monday 00:00 in the zone
+export const getWeekStart = (weekId: string, timeZone: string) =>
+  getStartOfDate(getWeekDateString(weekId), timeZone);
+
+// Last instant of Sunday in the zone
+export const getWeekEnd = (weekId: string, timeZone: string) =>
+  getStartOfDate(getWeekDateString(weekId, 7), timeZone) - 1;
+
+export const formatDate = (instant: number | Date, timeZone: string) =>
+  new Date(instant).toLocaleDateString(undefined, { timeZone });
+
+export const getWeekDateRange = (weekId: string, timeZone: string) => ({
+  startDate: formatDate(getWeekStart(weekId, timeZone), timeZone),
+  endDate: formatDate(getWeekEnd(weekId, timeZone), timeZone),
+});
@@ -0,0 +1,37 @@
+interface Pending {
+  timer: ReturnType<typeof setTimeout>;
+  firstCalledAt: number;
+  run: () => Promise<unknown>;
+  waiters: { resolve: (value: unknown) => void; reject: (error: unknown) => void }[];
+}
+
+// Collapses a burst of calls sharing a key into one run: each call restarts a
+// short timer, the latest `run` wins, and every caller gets its result.
+// `maxWaitMs` stops a steady stream of calls from holding the run off forever.
+// `onCollapsed` reports how many calls were saved.
+export const createKeyedDebouncer = (
+  delayMs: number,
+  maxWaitMs: number,
+  onCollapsed?: (count: number) => void
+) => {
+  const pending = new Map<string, Pending>();
+
+  return <T>(key: string, run: () => Promise<T>): Promise<T> => new Promise<T>((resolve, reject) => {
+    const now = Date.now();
+    const entry = pending.get(key);
+    if (entry) clearTimeout(entry.timer);
+
+    const next: Pending = entry || { timer: undefined as unknown as Pending['timer'], firstCalledAt: now, run, waiters: [] };
+    next.run = run;
+    next.waiters.push({ resolve: resolve as (value: unknown) => void, reject });
+    next.timer = setTimeout(() => {
+      pending.delete(key);
+      if (next.waiters.length > 1) onCollapsed?.(next.waiters.length - 1);
+      next.run().then(
+        value => next.waiters.forEach(waiter => waiter.resolve(value)),
+        error => next.waiters.forEach(waiter => waiter.reject(error))
+      );
+    }, Math.max(0, Math.min(delayMs, next.firstCalledAt + maxWaitMs - now)));
+    pending.set(key, next);
+  });
+};
@@ -0,0 +1,28 @@
+import fs from 'fs';
+import path from 'path';
+import { Store, StoreData, createDataStore } from '@/lib/store';
+
+// Single JSON file for offline development. The file is re-read on every call
+// and replaced atomically on every write, so separate route bundles in the same
+// dev server never see stale data.
+export const createFileStore = (filePath: string): Store => {
+  const resolved = path.resolve(filePath);
+
+  const load = (): StoreData => {
+    try {
+      return JSON.parse(fs.readFileSync(resolved, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { strings: {}, hashes: {} };
+      throw error;
+    }
+  };
+
+  const save = (data: StoreData) => {
+    fs.mkdirSync(path.dirname(resolved), { recursive: true });
+    const tmp = `${resolved}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data));
+    fs.renameSync(tmp, resolved);
+  };
+
+  return createDataStore(load, save);
+};
@@ -0,0 +1,40 @@
+import IORedis from 'ioredis';
+import { Store, serialize, deserialize } from '@/lib/store';
+
+// Plain Redis over TCP (e.g. a local redis-server or Docker container).
+export const createTcpStore = (url: string): Store => {
+  const client = new IORedis(url, { lazyConnect: true, maxRetriesPerRequest: 2 });
+
+  return {
+    async get<T>(key: string) {
+      return deserialize<T>(await client.get(key));
+    },
+    async set<T>(key: string, value: T) {
+      return client.set(key, serialize(value));
+    },
+    async del(...keys: string[]) {
+      return keys.length > 0 ? client.del(...keys) : 0;
+    },
+    async hget<T>(key: string, field: string) {
+      return deserialize<T>(await client.hget(key, field));
+    },
+    async hgetall<T extends Record<string, unknown>>(key: string) {
+      const hash = await client.hgetall(key);
+      if (Object.keys(hash).length === 0) return null;
+      return Object.fromEntries(Object.entries(hash).map(([field, raw]) => [field, deserialize(raw)])) as T;
+    },
+    async hset<T>(key: string, values: Record<string, T>) {
+      const entries = Object.entries(values).map(([field, value]) => [field, serialize(value)]);
+      return client.hset(key, Object.fromEntries(entries));
+    },
+    async hdel(key: string, ...fields: string[]) {
+      return client.hdel(key, ...fields);
+    },
+    async hincrby(key: string, field: string, increment: number) {
+      return client.hincrby(key, field, increment);
+    },
+    async scan(cursor: string, { match = '*', count = 100 }: { match?: string; count?: number }) {
+      return client.scan(cursor, 'MATCH', match, 'COUNT', count);
+    },
+  };
+};
@@ -0,0 +1,52 @@
+import { createHash } from 'crypto';
+import { ValidationError } from '@/lib/validation';
+import { MAX_PROOF_ITEMS, PROOF_SIZE_LIMITS, formatBytes, getProofKind } from '@/lib/proof';
+import { Evidence } from '@/types';
+
+export interface EvidenceItem {
+  data: string; // Base64
+  mimeType: string;
+}
+
+// Builds the stored record for a base64 proof item. The hash is taken over
+// the decoded bytes, so the same file always maps to the same record.
+export const createEvidence = (base64Data: string, mimeType: string, now: number = Date.now()): Evidence => {
+  const bytes = Buffer.from(base64Data, 'base64');
+  return {
+    hash: createHash('sha256').update(bytes).digest('hex'),
+    mimeType,
+    data: bytes.toString('base64'),
+    size: bytes.length,
+    createdAt: now,
+  };
+};
+
+// Checks a submitted `items` array: supported types, per-type size limits
+// and the item count. `min` is 0 where items are optional (appeals).
+export const parseEvidenceItems = (value: unknown, { min = 1 } = {}): EvidenceItem[] => {
+  if (value === undefined && min === 0) return [];
+  if (!Array.isArray(value)) throw new ValidationError('evidence', ['items must be an array']);
+  if (value.length < min || value.length > MAX_PROOF_ITEMS) {
+    throw new ValidationError('evidence', [`between ${min} and ${MAX_PROOF_ITEMS} items are allowed`]);
+  }
+
+  const issues: string[] = [];
+  value.forEach((item, index) => {
+    if (!item || typeof item.data !== 'string' || !item.data || typeof item.mimeType !== 'string') {
+      issues.push(`items[${index}] needs data and mimeType`);
+      return;
+    }
+    const kind = getProofKind(item.mimeType);
+    if (!kind) {
+      issues.push(`items[${index}]: ${item.mimeType} is not a supported proof type`);
+      return;
+    }
+    const size = Buffer.byteLength(item.data, 'base64');
+    if (size > PROOF_SIZE_LIMITS[kind]) {
+      issues.push(`items[${index}]: ${kind} is ${formatBytes(size)}, limit is ${formatBytes(PROOF_SIZE_LIMITS[kind])}`);
+    }
+  });
+  if (issues.length > 0) throw new ValidationError('evidence', issues);
+
+  return value.map(({ data, mimeType }) => ({ data, mimeType }));
+};
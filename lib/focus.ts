@@ -0,0 +1,77 @@
+// Focus timer sessions recorded on a task. Shared by the browser and the API;
+// only the API stamps segment times, so tracked time can back a claim.
+
+import { DurationCheck, FocusMode, FocusSegment, Task } from '@/types';
+
+export const POMODORO_MINUTES = 25;
+export const BREAK_MINUTES = 5;
+const MAX_SEGMENT_HOURS = 12; // A timer left running longer than this was forgotten
+const DURATION_STEP_HOURS = 0.25; // Tracked time is rounded to this for the duration field
+
+// Flagged when the claim exceeds tracked time by more than both of these
+const DISCREPANCY_RATIO = 1.5;
+const DISCREPANCY_MIN_HOURS = 0.5;
+
+const HOUR = 60 * 60 * 1000;
+
+// Longest a segment of this mode can count for
+const segmentCap = (mode: FocusMode) => mode === 'POMODORO' ? POMODORO_MINUTES * 60 * 1000 : MAX_SEGMENT_HOURS * HOUR;
+
+export const runningSegment = (task: Task): FocusSegment | null => {
+  const last = task.focusSegments?.[task.focusSegments.length - 1];
+  return last && last.endedAt === undefined ? last : null;
+};
+
+// When a running segment ends by itself: the end of the pomodoro, or the cap
+export const segmentDeadline = (segment: FocusSegment) => segment.startedAt + segmentCap(segment.mode);
+
+export const segmentMs = (segment: FocusSegment, now: number) =>
+  Math.max(0, Math.min(segment.endedAt ?? now, segmentDeadline(segment)) - segment.startedAt);
+
+export const trackedHours = (task: Task, now: number = Date.now()) =>
+  (task.focusSegments || []).reduce((acc, segment) => acc + segmentMs(segment, now), 0) / HOUR;
+
+// Tracked time as a value for durationHours, or null when too little to count
+export const trackedDuration = (task: Task, now: number = Date.now()) => {
+  const hours = Math.round(trackedHours(task, now) / DURATION_STEP_HOURS) * DURATION_STEP_HOURS;
+  return hours > 0 ? Math.min(hours, 24) : null;
+};
+
+// Closes the running segment, if any, no later than its deadline
+export const stopSegment = (task: Task, now: number): Task => {
+  const running = runningSegment(task);
+  if (!running) return task;
+  return {
+    ...task,
+    focusSegments: task.focusSegments!.map(segment =>
+      segment === running ? { ...segment, endedAt: Math.min(now, segmentDeadline(segment)) } : segment
+    ),
+  };
+};
+
+export const startSegment = (task: Task, mode: FocusMode, now: number): Task => {
+  const stopped = stopSegment(task, now);
+  return { ...stopped, focusSegments: [...(stopped.focusSegments || []), { startedAt: now, mode }] };
+};
+
+// Null when the task was never timed: there's nothing to compare against
+export const checkDuration = (task: Task, now: number = Date.now()): DurationCheck | null => {
+  if (!task.focusSegments?.length) return null;
+  const tracked = Math.round(trackedHours(task, now) * 100) / 100;
+  return {
+    claimedHours: task.durationHours,
+    trackedHours: tracked,
+    flagged: task.durationHours > tracked * DISCREPANCY_RATIO && task.durationHours - tracked > DISCREPANCY_MIN_HOURS,
+  };
+};
+
+// "1h 05m", "12m 30s"
+export const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return hours > 0
+    ? `${hours}h ${String(minutes).padStart(2, '0')}m`
+    : `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+};
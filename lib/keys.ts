@@ -0,0 +1,30 @@
+export const keys = {
+  profile: (userId: string) => `user:${userId}:profile`,
+  tasks: (userId: string) => `user:${userId}:tasks`,
+  stats: (userId: string) => `user:${userId}:stats`,
+  // Weeks the user deleted, so closing weeks doesn't backfill them again
+  deletedWeeks: (userId: string) => `user:${userId}:deleted-weeks`,
+  screentime: (userId: string) => `user:${userId}:screentime`,
+  evidence: (userId: string) => `user:${userId}:evidence`,
+  verifications: (userId: string) => `user:${userId}:verifications`,
+  reports: (userId: string) => `user:${userId}:reports`,
+  projects: (userId: string) => `user:${userId}:projects`,
+  templates: (userId: string) => `user:${userId}:templates`,
+  schemaVersion: (userId: string) => `user:${userId}:schema-version`,
+  ratingCache: (userId: string) => `user:${userId}:rating-cache`,
+  rateLimits: (userId: string) => `user:${userId}:rate-limits`,
+  // Outside the user:{id}:* space so purging a user never removes it
+  tombstone: (userId: string) => `tombstone:user:${userId}`,
+  // App-wide counters, not tied to a user
+  aiMetrics: 'metrics:ai',
+};
+
+// Records written by NextAuth's UpstashRedisAdapter (its default prefixes)
+export const authKeys = {
+  user: (userId: string) => `user:${userId}`,
+  email: (email: string) => `user:email:${email}`,
+  accounts: 'user:account:*',
+  accountByUserId: (userId: string) => `user:account:by-user-id:${userId}`,
+  sessions: 'user:session:*',
+  sessionByUserId: (userId: string) => `user:session:by-user-id:${userId}`,
+};
@@ -0,0 +1,38 @@
+import redis from '@/lib/redis';
+import { Store } from '@/lib/store';
+import { keys } from '@/lib/keys';
+
+export type MetricName =
+  | 'rating.cacheHit'
+  | 'rating.cacheMiss'
+  | 'rating.throttled'
+  | 'verification.throttled'
+  | 'quickAdd.throttled'
+  | 'recompute.debounced';
+
+export interface Metrics {
+  record(name: MetricName, count?: number): Promise<void>;
+  snapshot(): Promise<Record<MetricName, number>>;
+}
+
+const METRIC_NAMES: MetricName[] = ['rating.cacheHit', 'rating.cacheMiss', 'rating.throttled', 'verification.throttled', 'quickAdd.throttled', 'recompute.debounced'];
+
+// Counters live in the store so every server instance adds to the same totals.
+// A failed write is logged and dropped; metrics never fail a request.
+export const createMetrics = (store: Store): Metrics => ({
+  async record(name, count = 1) {
+    try {
+      await store.hincrby(keys.aiMetrics, name, count);
+    } catch (error) {
+      console.warn(`Failed to record metric ${name}:`, error);
+    }
+  },
+  async snapshot() {
+    const stored = await store.hgetall<Record<string, unknown>>(keys.aiMetrics) || {};
+    return Object.fromEntries(METRIC_NAMES.map(name => [name, Number(stored[name]) || 0])) as Record<MetricName, number>;
+  },
+});
+
+const metrics = createMetrics(redis);
+
+export default metrics;
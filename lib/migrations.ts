@@ -0,0 +1,230 @@
+import { Store } from '@/lib/store';
+import { keys } from '@/lib/keys';
+import { MAX_STREAK_FREEZES_PER_QUARTER, declaredFields } from '@/lib/validation';
+import { upgradeLegacyRatingPolicy, upgradeLegacyTask } from '@/lib/categories';
+import { ScreenTimeEntry } from '@/types';
+
+export interface MigrationContext {
+  store: Store;
+  userId: string;
+  dryRun: boolean;
+}
+
+// A migration returns a description of every change it made (or would make,
+// on a dry run). Migrations must be idempotent: re-running one over data it
+// already migrated reports nothing.
+export interface Migration {
+  version: number;
+  name: string;
+  up(context: MigrationContext): Promise<string[]>;
+}
+
+export interface MigrationReport {
+  userId: string;
+  fromVersion: number;
+  toVersion: number;
+  dryRun: boolean;
+  applied: { version: number; name: string; changes: string[] }[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const pick = (record: Record<string, unknown>, fields: string[]) =>
+  Object.fromEntries(Object.entries(record).filter(([field]) => fields.includes(field)));
+
+const stripHash = async ({ store, dryRun }: MigrationContext, key: string, fields: string[]) => {
+  const changes: string[] = [];
+  const updates: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(await store.hgetall(key) || {})) {
+    if (!isRecord(value)) continue;
+    const extra = Object.keys(value).filter(name => !fields.includes(name));
+    if (extra.length === 0) continue;
+    changes.push(`${key}#${field}: drop ${extra.join(', ')}`);
+    updates[field] = pick(value, fields);
+  }
+  if (!dryRun && changes.length > 0) await store.hset(key, updates);
+  return changes;
+};
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'strip-undeclared-fields',
+    // Older clients wrote fields that were never part of the types (e.g. a
+    // userId on weekly stats); drop them so stored records match the schema.
+    async up(context) {
+      const { store, userId, dryRun } = context;
+      const changes = [
+        // `type` is left for task-categories (v3) to convert
+        ...await stripHash(context, keys.tasks(userId), [...declaredFields.task, 'type']),
+        ...await stripHash(context, keys.stats(userId), declaredFields.weeklyStats),
+        ...await stripHash(context, keys.screentime(userId), declaredFields.screenTime),
+      ];
+
+      const profile = await store.get<unknown>(keys.profile(userId));
+      if (isRecord(profile)) {
+        const extra = Object.keys(profile).filter(name => !declaredFields.profile.includes(name));
+        if (extra.length > 0) {
+          changes.push(`${keys.profile(userId)}: drop ${extra.join(', ')}`);
+          if (!dryRun) await store.set(keys.profile(userId), pick(profile, declaredFields.profile));
+        }
+      }
+      return changes;
+    },
+  },
+  {
+    version: 2,
+    name: 'screentime-by-date',
+    // Screen time used to be keyed by submission timestamp, so one day could
+    // hold several entries. Re-key by date, adding up hours for the same day.
+    async up({ store, userId, dryRun }) {
+      const key = keys.screentime(userId);
+      const hash = await store.hgetall<Record<string, unknown>>(key) || {};
+
+      const byDate: Record<string, ScreenTimeEntry> = {};
+      const stale: string[] = [];
+      for (const [field, value] of Object.entries(hash)) {
+        if (!isRecord(value) || typeof value.date !== 'string' || typeof value.hours !== 'number') continue;
+        const entry = value as unknown as ScreenTimeEntry;
+        const merged = byDate[entry.date];
+        byDate[entry.date] = merged
+          ? { date: entry.date, hours: merged.hours + entry.hours, submittedAt: Math.max(merged.submittedAt, entry.submittedAt) }
+          : { date: entry.date, hours: entry.hours, submittedAt: entry.submittedAt };
+        if (field !== entry.date) stale.push(field);
+      }
+      if (stale.length === 0) return [];
+
+      const changes = stale.map(field => `${key}#${field}: re-key as ${(hash[field] as ScreenTimeEntry).date}`);
+      if (!dryRun) {
+        await store.hset(key, byDate);
+        const removable = stale.filter(field => !(field in byDate));
+        if (removable.length > 0) await store.hdel(key, ...removable);
+      }
+      return changes;
+    },
+  },
+  {
+    version: 3,
+    name: 'task-categories',
+    // Tasks had a two-value type; they now point at a user-defined category.
+    // The old types become the default "study" and "work" categories, and
+    // per-type rating multipliers become per-category ones.
+    async up({ store, userId, dryRun }) {
+      const changes: string[] = [];
+
+      const tasksKey = keys.tasks(userId);
+      const updates: Record<string, unknown> = {};
+      for (const [field, value] of Object.entries(await store.hgetall<Record<string, unknown>>(tasksKey) || {})) {
+        if (!isRecord(value)) continue;
+        const upgraded = upgradeLegacyTask(value);
+        if (upgraded === value) continue;
+        changes.push(`${tasksKey}#${field}: type ${value.type} -> category ${upgraded.categoryId}`);
+        updates[field] = upgraded;
+      }
+      if (!dryRun && changes.length > 0) await store.hset(tasksKey, updates);
+
+      const profile = await store.get<unknown>(keys.profile(userId));
+      if (isRecord(profile) && isRecord(profile.ratingPolicy)) {
+        const ratingPolicy = upgradeLegacyRatingPolicy(profile.ratingPolicy);
+        if (ratingPolicy !== profile.ratingPolicy) {
+          changes.push(`${keys.profile(userId)}: rating multipliers by category`);
+          if (!dryRun) await store.set(keys.profile(userId), { ...profile, ratingPolicy });
+        }
+      }
+
+      const reportsKey = keys.reports(userId);
+      const reports: Record<string, unknown> = {};
+      for (const [field, value] of Object.entries(await store.hgetall<Record<string, unknown>>(reportsKey) || {})) {
+        if (!isRecord(value) || !Array.isArray(value.slippedTypes)) continue;
+        const { slippedTypes, ...rest } = value;
+        reports[field] = { ...rest, slippedCategories: slippedTypes.map(type => upgradeLegacyTask({ type }).categoryId) };
+        changes.push(`${reportsKey}#${field}: slipped types -> categories`);
+      }
+      if (!dryRun && Object.keys(reports).length > 0) await store.hset(reportsKey, reports);
+
+      return changes;
+    },
+  },
+  {
+    version: 4,
+    name: 'positive-week-goals',
+    // Weeks could be saved with a goal of 0, which every week meets. Give them
+    // the profile's goal, since the schema no longer reads them.
+    async up({ store, userId, dryRun }) {
+      const profile = await store.get<unknown>(keys.profile(userId));
+      const goalHours = isRecord(profile) ? profile.weeklyGoalHours : undefined;
+      if (typeof goalHours !== 'number' || goalHours <= 0) return [];
+
+      const key = keys.stats(userId);
+      const changes: string[] = [];
+      const updates: Record<string, unknown> = {};
+      for (const [field, value] of Object.entries(await store.hgetall<Record<string, unknown>>(key) || {})) {
+        if (!isRecord(value) || typeof value.goalHours !== 'number' || value.goalHours > 0) continue;
+        changes.push(`${key}#${field}: goal ${value.goalHours}h -> ${goalHours}h`);
+        updates[field] = { ...value, goalHours };
+      }
+      if (!dryRun && changes.length > 0) await store.hset(key, updates);
+      return changes;
+    },
+  },
+  {
+    version: 5,
+    name: 'cap-streak-freezes',
+    // Profiles could set any number of streak freezes; bring them down to the
+    // cap the schema now enforces.
+    async up({ store, userId, dryRun }) {
+      const key = keys.profile(userId);
+      const profile = await store.get<unknown>(key);
+      if (!isRecord(profile) || typeof profile.streakFreezesPerQuarter !== 'number') return [];
+      if (profile.streakFreezesPerQuarter <= MAX_STREAK_FREEZES_PER_QUARTER) return [];
+
+      if (!dryRun) await store.set(key, { ...profile, streakFreezesPerQuarter: MAX_STREAK_FREEZES_PER_QUARTER });
+      return [`${key}: streak freezes ${profile.streakFreezesPerQuarter} -> ${MAX_STREAK_FREEZES_PER_QUARTER}`];
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+export async function getSchemaVersion(store: Store, userId: string): Promise<number> {
+  return Number(await store.get(keys.schemaVersion(userId))) || 0;
+}
+
+// Applies every migration newer than the user's stored version, in order. A
+// dry run only reports what would change and leaves the version untouched.
+export async function migrateUser(store: Store, userId: string, { dryRun = false } = {}): Promise<MigrationReport> {
+  const fromVersion = await getSchemaVersion(store, userId);
+  const applied: MigrationReport['applied'] = [];
+
+  for (const migration of migrations) {
+    if (migration.version <= fromVersion) continue;
+    const changes = await migration.up({ store, userId, dryRun });
+    applied.push({ version: migration.version, name: migration.name, changes });
+    if (!dryRun) await store.set(keys.schemaVersion(userId), migration.version);
+  }
+
+  return {
+    userId,
+    fromVersion,
+    toVersion: Math.max(fromVersion, CURRENT_SCHEMA_VERSION),
+    dryRun,
+    applied,
+  };
+}
+
+// Users are migrated lazily on first access; remember who is done so the
+// version check runs once per user per process.
+const migrated = new Map<string, Promise<void>>();
+
+export function ensureMigrated(store: Store, userId: string): Promise<void> {
+  let pending = migrated.get(userId);
+  if (!pending) {
+    pending = migrateUser(store, userId).then(() => undefined, error => {
+      migrated.delete(userId);
+      throw error;
+    });
+    migrated.set(userId, pending);
+  }
+  return pending;
+}
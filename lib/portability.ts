@@ -0,0 +1,280 @@
+import repos from '@/lib/repositories';
+import { CURRENT_SCHEMA_VERSION } from '@/lib/migrations';
+import { recomputeAllWeeks } from '@/lib/weeklyStats';
+import { getUserTimeZone } from '@/lib/dates';
+import { recordLimitOverride } from '@/lib/dailyLimit';
+import { upgradeLegacyRatingPolicy, upgradeLegacyTask } from '@/lib/categories';
+import {
+  ValidationError,
+  declaredFields,
+  parseTask,
+  parseWeeklyStats,
+  parseScreenTimeEntry,
+  parseUserProfile,
+  parseProject,
+  parseTaskTemplate,
+} from '@/lib/validation';
+import { Task, WeeklyStats, ScreenTimeEntry, UserProfile, Project, TaskTemplate, VerificationStatus } from '@/types';
+
+export const EXPORT_FORMAT = 'goal-guardian-export';
+export const EXPORT_VERSION = 3;
+
+// Version 3 of the export format; version 1 had no projects and version 2 no
+// recurring templates. `version` only changes when this shape does; `schemaVersion` records the data schema (see
+// lib/migrations.ts) it was taken at.
+export interface AccountExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: number;
+  profile: UserProfile | null;
+  tasks: Task[];
+  stats: WeeklyStats[];
+  screentime: ScreenTimeEntry[];
+  projects: Project[];
+  templates: TaskTemplate[];
+}
+
+export const CSV_ENTITIES = ['profile', 'tasks', 'stats', 'screentime', 'projects', 'templates'] as const;
+export type CsvEntity = typeof CSV_ENTITIES[number];
+
+export interface ImportSummary {
+  tasks: { added: number; remapped: number; skipped: number };
+  stats: { added: number; skipped: number };
+  screentime: { added: number; skipped: number };
+  projects: { added: number; remapped: number; skipped: number };
+  templates: { added: number; remapped: number; skipped: number };
+  profile: 'created' | 'updated' | 'skipped';
+}
+
+export async function buildExport(userId: string): Promise<AccountExport> {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    profile: await repos.profiles.get(userId),
+    tasks: await repos.tasks.list(userId),
+    stats: (await repos.stats.list(userId)).sort((a, b) => a.weekId.localeCompare(b.weekId)),
+    screentime: (await repos.screentime.list(userId)).sort((a, b) => a.date.localeCompare(b.date)),
+    projects: await repos.projects.list(userId),
+    templates: await repos.templates.list(userId),
+  };
+}
+
+const csvCell = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (columns: string[], rows: object[]) =>
+  [columns, ...rows.map(row => columns.map(column => (row as Record<string, unknown>)[column]))]
+    .map(cells => cells.map(csvCell).join(','))
+    .join('\r\n') + '\r\n';
+
+// One CSV per entity, with a column for every declared field.
+export const exportToCsv = (data: AccountExport, entity: CsvEntity) => {
+  switch (entity) {
+    case 'profile': return toCsv(declaredFields.profile, data.profile ? [data.profile] : []);
+    case 'tasks': return toCsv(declaredFields.task, data.tasks);
+    case 'stats': return toCsv(declaredFields.weeklyStats, data.stats);
+    case 'screentime': return toCsv(declaredFields.screenTime, data.screentime);
+    case 'projects': return toCsv(declaredFields.project, data.projects);
+    case 'templates': return toCsv(declaredFields.taskTemplate, data.templates);
+  }
+};
+
+const parseList = <T>(parse: (value: unknown) => T, value: unknown, label: string, issues: string[]): T[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push(`${label} must be an array`);
+    return [];
+  }
+  return value.flatMap((item, index) => {
+    try {
+      return [parse(item)];
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      issues.push(`${label}[${index}]: ${error.issues.join(', ')}`);
+      return [];
+    }
+  });
+};
+
+// Checks the whole payload before anything is written, so a bad file never
+// leaves a half-imported account behind.
+export const parseExport = (value: unknown): AccountExport => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError('export', ['must be an object']);
+  }
+  const input = value as Record<string, unknown>;
+  if (input.format !== EXPORT_FORMAT) {
+    throw new ValidationError('export', [`format must be ${EXPORT_FORMAT}`]);
+  }
+  if (typeof input.version !== 'number' || input.version > EXPORT_VERSION) {
+    throw new ValidationError('export', [`version must be a number <= ${EXPORT_VERSION}`]);
+  }
+
+  // Exports taken before task categories (schema v3) still carry task types
+  const isRecord = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+  const rawTasks = Array.isArray(input.tasks) ? input.tasks.map(t => isRecord(t) ? upgradeLegacyTask(t) : t) : input.tasks;
+  const rawProfile = isRecord(input.profile) && isRecord(input.profile.ratingPolicy)
+    ? { ...input.profile, ratingPolicy: upgradeLegacyRatingPolicy(input.profile.ratingPolicy) }
+    : input.profile;
+
+  const issues: string[] = [];
+  const tasks = parseList(parseTask, rawTasks, 'tasks', issues);
+  const stats = parseList(parseWeeklyStats, input.stats, 'stats', issues);
+  const screentime = parseList(parseScreenTimeEntry, input.screentime, 'screentime', issues);
+  const projects = parseList(parseProject, input.projects, 'projects', issues);
+  const templates = parseList(parseTaskTemplate, input.templates, 'templates', issues);
+  const [profile = null] = rawProfile ? parseList(parseUserProfile, [rawProfile], 'profile', issues) : [];
+  if (issues.length > 0) throw new ValidationError('export', issues);
+
+  return {
+    format: EXPORT_FORMAT,
+    version: input.version,
+    schemaVersion: Number(input.schemaVersion) || 0,
+    exportedAt: Number(input.exportedAt) || 0,
+    profile,
+    tasks,
+    stats,
+    screentime,
+    projects,
+    templates,
+  };
+};
+
+const sameRecord = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Saves imported records that point at each other (projects, templates) the
+// way tasks are saved: an id taken by a different record gets a new one.
+// Returns every imported id mapped to the id it is stored under.
+async function importLinked<T extends { id: string }>(
+  imported: T[],
+  existing: T[],
+  save: (record: T) => Promise<unknown>,
+  counts: { added: number; remapped: number; skipped: number }
+): Promise<Record<string, string>> {
+  const existingById = Object.fromEntries(existing.map(record => [record.id, record]));
+  const ids: Record<string, string> = {};
+  for (const record of imported) {
+    const stored = existingById[record.id];
+    if (stored && sameRecord(stored, record)) {
+      ids[record.id] = record.id;
+      counts.skipped++;
+      continue;
+    }
+    ids[record.id] = stored ? crypto.randomUUID() : record.id;
+    await save({ ...record, id: ids[record.id] });
+    if (stored) counts.remapped++;
+    else counts.added++;
+  }
+  return ids;
+}
+
+// Only the verify and appeal routes set a verdict, so imported tasks come in
+// PENDING, to be verified again.
+const withoutVerdict = ({ completedAt, rejectionReason, appeal, ...task }: Task): Task =>
+  ({ ...task, status: VerificationStatus.PENDING });
+
+// Merges an export into the account without overwriting anything that is
+// already there. Tasks, projects and templates whose id is taken by a
+// different record get a new id, and tasks follow their project and template
+// to it; links to anything not in the file are dropped. Tasks come in without
+// their verdict and weeks under the profile's goal. Weeks and screen time
+// days that already exist keep the stored version. Identity fields of an
+// existing profile are kept; only settings are imported.
+export async function importAccount(userId: string, payload: unknown): Promise<ImportSummary> {
+  const data = parseExport(payload);
+  const summary: ImportSummary = {
+    tasks: { added: 0, remapped: 0, skipped: 0 },
+    stats: { added: 0, skipped: 0 },
+    screentime: { added: 0, skipped: 0 },
+    projects: { added: 0, remapped: 0, skipped: 0 },
+    templates: { added: 0, remapped: 0, skipped: 0 },
+    profile: 'skipped',
+  };
+
+  // Before tasks, which may point at them
+  const projectIds = await importLinked(data.projects, await repos.projects.list(userId),
+    project => repos.projects.save(userId, project), summary.projects);
+  const linkProject = (projectId?: string) => projectId === undefined ? undefined : projectIds[projectId];
+  const templateIds = await importLinked(
+    data.templates.map(template => ({ ...template, projectId: linkProject(template.projectId) })),
+    await repos.templates.list(userId),
+    template => repos.templates.save(userId, template),
+    summary.templates
+  );
+
+  // Imported tasks aren't refused for going over the daily limit, but any
+  // that takes its day past it records the override
+  const profile = await repos.profiles.get(userId) ?? data.profile;
+  const timeZone = getUserTimeZone(profile);
+  const storedTasks = await repos.tasks.list(userId);
+  const saveTask = async (task: Task) => {
+    storedTasks.push(await repos.tasks.save(userId, profile ? recordLimitOverride(profile, storedTasks, task, timeZone) : task));
+  };
+
+  const existingTasks = Object.fromEntries(storedTasks.map(task => [task.id, task]));
+  for (const imported of data.tasks) {
+    const task = {
+      ...imported,
+      projectId: linkProject(imported.projectId),
+      templateId: imported.templateId === undefined ? undefined : templateIds[imported.templateId],
+    };
+    const existing = existingTasks[task.id];
+    if (existing && sameRecord(existing, task)) {
+      summary.tasks.skipped++;
+    } else if (existing) {
+      await saveTask({ ...withoutVerdict(task), id: crypto.randomUUID() });
+      summary.tasks.remapped++;
+    } else {
+      await saveTask(withoutVerdict(task));
+      summary.tasks.added++;
+    }
+  }
+
+  // Weeks take the profile's goal and come in unsealed, for rollover to seal
+  // them on the imported tasks; without a profile there is no goal to give them
+  const existingWeeks = new Set((await repos.stats.list(userId)).map(week => week.weekId));
+  const newWeeks = profile
+    ? data.stats
+        .filter(week => !existingWeeks.has(week.weekId))
+        .map(({ sealedAt, ...week }) => ({ ...week, goalHours: profile.weeklyGoalHours }))
+    : [];
+  await repos.stats.saveMany(userId, newWeeks);
+  summary.stats = { added: newWeeks.length, skipped: data.stats.length - newWeeks.length };
+
+  const existingDays = new Set((await repos.screentime.list(userId)).map(entry => entry.date));
+  for (const entry of data.screentime) {
+    if (existingDays.has(entry.date)) {
+      summary.screentime.skipped++;
+      continue;
+    }
+    await repos.screentime.add(userId, entry);
+    existingDays.add(entry.date);
+    summary.screentime.added++;
+  }
+
+  if (data.profile) {
+    const current = await repos.profiles.get(userId);
+    await repos.profiles.save(userId, current
+      ? {
+          ...current,
+          weeklyGoalHours: data.profile.weeklyGoalHours,
+          streakFreezesPerQuarter: data.profile.streakFreezesPerQuarter ?? current.streakFreezesPerQuarter,
+          timezone: data.profile.timezone ?? current.timezone,
+          ratingPolicy: data.profile.ratingPolicy ?? current.ratingPolicy,
+          categories: data.profile.categories ?? current.categories,
+        }
+      : { ...data.profile, googleId: userId });
+    summary.profile = current ? 'updated' : 'created';
+  }
+
+  // Imported tasks and screen time change past totals, including sealed weeks
+  await recomputeAllWeeks(userId);
+
+  return summary;
+}
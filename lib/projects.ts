@@ -0,0 +1,84 @@
+// Project progress, worked out from the task list so it follows verifications live.
+
+import { addDays, daysBetween, getLocalDateString } from '@/lib/dates';
+import { Project, Task, VerificationStatus } from '@/types';
+
+const PACE_WINDOW_DAYS = 14; // Recent days the projected pace is averaged over
+const MAX_PROJECTION_DAYS = 730; // Further out than this counts as no projection
+
+export type ProjectStatus = 'done' | 'on-track' | 'at-risk' | 'overdue' | 'no-pace';
+
+export interface ProjectProgress {
+  projectId: string;
+  completedHours: number;
+  verifiedTasks: number;
+  openTasks: number;
+  hoursPerDay: number; // Verified hours per day over the recent pace window
+  projectedCompletion: string | null; // YYYY-MM-DD the target is reached at that pace
+  status: ProjectStatus;
+  // Cumulative verified hours per day from the project's start to today, then
+  // the projected line up to the projected completion date
+  burnUp: { date: string; hours?: number; projected?: number }[];
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const statusOf = (project: Project, completedHours: number, projectedCompletion: string | null, today: string): ProjectStatus => {
+  if (project.targetHours !== undefined && completedHours >= project.targetHours) return 'done';
+  if (project.deadline && project.deadline < today) return 'overdue';
+  if (project.targetHours === undefined) return 'on-track'; // Deadline only: nothing to project
+  if (!projectedCompletion) return 'no-pace';
+  return project.deadline && projectedCompletion > project.deadline ? 'at-risk' : 'on-track';
+};
+
+// Rolls the verified hours of the project's tasks up into progress. Days are
+// the user's local days.
+export const buildProjectProgress = (project: Project, tasks: Task[], timeZone: string, now: number = Date.now()): ProjectProgress => {
+  const today = getLocalDateString(now, timeZone);
+  const attached = tasks.filter(t => t.projectId === project.id);
+  const verified = attached.filter(t => t.status === VerificationStatus.VERIFIED && t.completedAt);
+
+  const hoursByDay = verified.reduce<Record<string, number>>((acc, t) => {
+    const day = getLocalDateString(t.completedAt!, timeZone);
+    acc[day] = (acc[day] || 0) + t.durationHours;
+    return acc;
+  }, {});
+  const firstDay = [getLocalDateString(project.createdAt, timeZone), ...Object.keys(hoursByDay)].sort()[0];
+  const completedHours = Object.values(hoursByDay).reduce((acc, hours) => acc + hours, 0);
+
+  const burnUp: ProjectProgress['burnUp'] = [];
+  let cumulative = 0;
+  for (let day = firstDay; day <= today; day = addDays(day, 1)) {
+    cumulative += hoursByDay[day] || 0;
+    burnUp.push({ date: day, hours: round1(cumulative) });
+  }
+
+  const windowDays = Math.min(PACE_WINDOW_DAYS, daysBetween(firstDay, today) + 1);
+  const windowStart = addDays(today, 1 - windowDays);
+  const recentHours = Object.entries(hoursByDay).filter(([day]) => day >= windowStart).reduce((acc, [, hours]) => acc + hours, 0);
+  const hoursPerDay = recentHours / windowDays;
+
+  let projectedCompletion: string | null = null;
+  const remaining = project.targetHours !== undefined ? project.targetHours - completedHours : 0;
+  if (project.targetHours !== undefined && remaining <= 0) {
+    projectedCompletion = today;
+  } else if (remaining > 0 && hoursPerDay > 0 && remaining / hoursPerDay <= MAX_PROJECTION_DAYS) {
+    const days = Math.ceil(remaining / hoursPerDay);
+    projectedCompletion = addDays(today, days);
+    burnUp[burnUp.length - 1].projected = round1(completedHours);
+    for (let n = 1; n <= days; n++) {
+      burnUp.push({ date: addDays(today, n), projected: round1(Math.min(project.targetHours!, completedHours + hoursPerDay * n)) });
+    }
+  }
+
+  return {
+    projectId: project.id,
+    completedHours: round1(completedHours),
+    verifiedTasks: verified.length,
+    openTasks: attached.length - verified.length,
+    hoursPerDay: round1(hoursPerDay),
+    projectedCompletion,
+    status: statusOf(project, completedHours, projectedCompletion, today),
+    burnUp,
+  };
+};
@@ -0,0 +1,44 @@
+// What can be submitted as proof, shared by the upload UI and the API.
+
+export type ProofKind = 'image' | 'pdf' | 'video';
+
+// Per-item size limits in bytes. Images are compressed in the browser first,
+// so their limit only catches files that refused to shrink.
+export const PROOF_SIZE_LIMITS: Record<ProofKind, number> = {
+  image: 2 * 1024 * 1024,
+  pdf: 4 * 1024 * 1024,
+  video: 8 * 1024 * 1024,
+};
+
+export const MAX_PROOF_ITEMS = 5;
+
+// Accepted MIME types and the extension each is served with. Images are
+// raster only: an SVG can carry script, which would run on the app's origin
+// when the proof is opened.
+const IMAGE_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+};
+const VIDEO_TYPES: Record<string, string> = { 'video/mp4': 'mp4', 'video/webm': 'webm', 'video/quicktime': 'mov' };
+const PROOF_EXTENSIONS: Record<string, string> = { ...IMAGE_TYPES, 'application/pdf': 'pdf', ...VIDEO_TYPES };
+
+// For <input accept>
+export const PROOF_ACCEPT = Object.keys(PROOF_EXTENSIONS).join(',');
+
+export const getProofKind = (mimeType: string): ProofKind | null => {
+  if (Object.keys(IMAGE_TYPES).includes(mimeType)) return 'image';
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (Object.keys(VIDEO_TYPES).includes(mimeType)) return 'video';
+  return null;
+};
+
+export const getProofExtension = (mimeType: string) =>
+  getProofKind(mimeType) ? PROOF_EXTENSIONS[mimeType] : 'bin';
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
@@ -0,0 +1,140 @@
+// Quick-add grammar, shared by the task list and the parse route.
+
+import { TaskCategory } from '@/types';
+import { addDays, getDayIndexFromDateString } from '@/lib/dates';
+
+export type QuickAddField = 'categoryId' | 'durationHours' | 'plannedFor';
+
+export interface QuickAddDraft {
+  title: string;
+  categoryId: string;
+  durationHours: number;
+  plannedFor?: string; // YYYY-MM-DD
+  missing: QuickAddField[]; // Fields the text didn't state; defaults were used
+}
+
+export const DEFAULT_QUICK_ADD_HOURS = 1;
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const WEEKDAY_ALIASES: Record<string, number> = Object.fromEntries(
+  WEEKDAYS.flatMap((day, index) => [[day, index], [day.slice(0, 3), index]])
+);
+
+// Explicit markers (a category's name or id, optionally with #) are removed
+// from the title unless followed by a connector; hints only pick the category.
+// The aliases and hints apply while the default categories exist.
+const MARKER_ALIASES: Record<string, string> = { learn: 'study', project: 'work' };
+const CONNECTORS = ['on', 'for', 'at', 'with', 'of', 'about', 'through'];
+const STUDY_HINTS = /\b(read(ing)?|revise|revision|lecture|homework|course|exam|chapter|ch\.?\s*\d+|notes|flashcards|practice|tutorial|algebra|calculus|physics|chemistry|history|biology|language)\b/i;
+const WORK_HINTS = /\b(meeting|client|code|coding|deploy|fix|bug|feature|report|email|review|design|draft|invoice|presentation|pr)\b/i;
+
+const DURATION_PATTERNS: { re: RegExp; hours: (m: RegExpMatchArray) => number }[] = [
+  { re: /\b(\d+)\s*h(?:rs?|ours?)?\s*(\d+)\s*m(?:ins?|inutes?)?\b/i, hours: m => +m[1] + +m[2] / 60 },
+  { re: /\b(\d+(?:\.\d+)?)\s*h(?:rs?|ours?)?\b/i, hours: m => +m[1] },
+  { re: /\b(\d+)\s*m(?:in(?:ute)?s?)?\b/i, hours: m => +m[1] / 60 },
+  { re: /\bhalf an? hour\b/i, hours: () => 0.5 },
+  { re: /\ban? hour\b/i, hours: () => 1 },
+];
+// "fix bug in 2h" and "read for about 30m" lose their connectors with the duration
+const DURATION_CONNECTORS = ['in', 'for', 'about', 'around'];
+const withConnector = (re: RegExp) =>
+  new RegExp(`(?:\\b(?:${DURATION_CONNECTORS.join('|')})\\s+)*${re.source}`, re.flags);
+
+// Next occurrence of a weekday, today included
+const nextWeekday = (today: string, dayIndex: number) =>
+  addDays(today, (dayIndex - getDayIndexFromDateString(today) + 7) % 7);
+
+const DATE_PATTERNS: { re: RegExp; date: (m: RegExpMatchArray, today: string) => string | null }[] = [
+  { re: /\b(\d{4}-\d{2}-\d{2})\b/, date: m => m[1] },
+  { re: /\b(today|tonight)\b/i, date: (_, today) => today },
+  { re: /\b(tomorrow|tmrw?)\b/i, date: (_, today) => addDays(today, 1) },
+  { re: /\bin (\d+) days?\b/i, date: (m, today) => addDays(today, +m[1]) },
+  { re: /\bnext week\b/i, date: (_, today) => nextWeekday(addDays(today, 1), 0) },
+  {
+    re: new RegExp(`\\b(next |on |this )?(${Object.keys(WEEKDAY_ALIASES).join('|')})\\b`, 'i'),
+    date: (m, today) => {
+      const date = nextWeekday(today, WEEKDAY_ALIASES[m[2].toLowerCase()]);
+      return m[1]?.trim().toLowerCase() === 'next' && date === today ? addDays(date, 7) : date;
+    },
+  },
+];
+
+// Removes the first match of `re` from `text` and hands back what matched
+const take = (text: string, re: RegExp): [string, RegExpMatchArray | null] => {
+  const match = text.match(re);
+  if (!match || match.index === undefined) return [text, null];
+  return [text.slice(0, match.index) + ' ' + text.slice(match.index + match[0].length), match];
+};
+
+const categoryMarkers = (categories: TaskCategory[]) => {
+  const markers: Record<string, string> = {};
+  const add = (word: string, id: string) => {
+    if (!/\s/.test(word)) {
+      markers[word] ??= id;
+      markers[`#${word}`] ??= id;
+    }
+  };
+  for (const category of categories) {
+    add(category.id, category.id);
+    add(category.name.toLowerCase(), category.id);
+  }
+  for (const [alias, id] of Object.entries(MARKER_ALIASES)) {
+    if (categories.some(c => c.id === id)) add(alias, id);
+  }
+  return markers;
+};
+
+// Parses text like "2.5h study linear algebra ch.4 tomorrow". `today` is the
+// user's local date. Whatever isn't a duration, category marker or date
+// becomes the title; without a category the first one is used.
+export const parseQuickAdd = (text: string, today: string, categories: TaskCategory[]): QuickAddDraft => {
+  let rest = ` ${text.trim()} `;
+  const missing: QuickAddField[] = [];
+
+  let durationHours: number | null = null;
+  for (const { re, hours } of DURATION_PATTERNS) {
+    const [next, match] = take(rest, withConnector(re));
+    if (match) {
+      rest = next;
+      durationHours = Math.round(hours(match) * 100) / 100;
+      break;
+    }
+  }
+
+  let plannedFor: string | undefined;
+  for (const { re, date } of DATE_PATTERNS) {
+    const [next, match] = take(rest, re);
+    const parsed = match ? date(match, today) : null;
+    if (parsed) {
+      rest = next;
+      plannedFor = parsed;
+      break;
+    }
+  }
+
+  const markers = categoryMarkers(categories);
+  const has = (id: string) => categories.some(c => c.id === id);
+  let categoryId: string | null = null;
+  const words = rest.split(/\s+/).filter(Boolean);
+  const markerIndex = words.findIndex(word => markers[word.toLowerCase()]);
+  if (markerIndex !== -1) {
+    categoryId = markers[words[markerIndex].toLowerCase()];
+    // "work on X" and "study for Y" read better with the verb kept
+    if (!CONNECTORS.includes(words[markerIndex + 1]?.toLowerCase() ?? '')) words.splice(markerIndex, 1);
+  }
+  const title = words.join(' ').replace(/^[\s,;:-]+|[\s,;:-]+$/g, '');
+  if (!categoryId && has('study') && STUDY_HINTS.test(title)) categoryId = 'study';
+  else if (!categoryId && has('work') && WORK_HINTS.test(title)) categoryId = 'work';
+
+  if (categoryId === null) missing.push('categoryId');
+  if (durationHours === null || durationHours <= 0 || durationHours > 24) missing.push('durationHours');
+  if (!plannedFor) missing.push('plannedFor');
+
+  return {
+    title: title ? title[0].toUpperCase() + title.slice(1) : '',
+    categoryId: categoryId ?? categories[0]?.id ?? '',
+    durationHours: missing.includes('durationHours') ? DEFAULT_QUICK_ADD_HOURS : durationHours!,
+    plannedFor,
+    missing,
+  };
+};
@@ -0,0 +1,60 @@
+import redis from '@/lib/redis';
+import { Store } from '@/lib/store';
+import { keys } from '@/lib/keys';
+import metrics from '@/lib/metrics';
+
+export type RateLimitScope = 'verification' | 'rating' | 'quickAdd';
+
+interface BucketConfig {
+  capacity: number; // Calls allowed in a burst
+  refillPerMinute: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Verification sends proof to the model on every call, so it gets the tighter
+// budget. Rating calls only write an explanation and quick-add calls only fill
+// gaps in the grammar parse, so both fall back to the offline result when
+// throttled.
+export const RATE_LIMITS: Record<RateLimitScope, BucketConfig> = {
+  verification: { capacity: 5, refillPerMinute: 1 },
+  rating: { capacity: 10, refillPerMinute: 2 },
+  quickAdd: { capacity: 10, refillPerMinute: 5 },
+};
+
+export class RateLimitError extends Error {
+  constructor(public scope: RateLimitScope, public retryAfterSeconds: number) {
+    super(`Too many ${scope} requests; try again in ${retryAfterSeconds}s`);
+    this.name = 'RateLimitError';
+  }
+}
+
+export interface RateLimiter {
+  // Takes one token from the user's bucket or throws RateLimitError
+  consume(userId: string, scope: RateLimitScope, now?: number): Promise<void>;
+}
+
+// A token bucket per user and scope, stored as a field of the user's
+// rate-limit hash. The read-then-write isn't atomic, so two concurrent calls
+// can share a token; that's close enough for keeping model spend in check.
+export const createRateLimiter = (store: Store, limits = RATE_LIMITS): RateLimiter => ({
+  async consume(userId, scope, now = Date.now()) {
+    const { capacity, refillPerMinute } = limits[scope];
+    const stored = await store.hget<Bucket>(keys.rateLimits(userId), scope);
+    const elapsedMinutes = stored ? Math.max(0, now - stored.updatedAt) / 60000 : 0;
+    const tokens = stored ? Math.min(capacity, stored.tokens + elapsedMinutes * refillPerMinute) : capacity;
+
+    if (tokens < 1) {
+      await metrics.record(`${scope}.throttled`);
+      throw new RateLimitError(scope, Math.ceil(((1 - tokens) / refillPerMinute) * 60));
+    }
+    await store.hset<Bucket>(keys.rateLimits(userId), { [scope]: { tokens: tokens - 1, updatedAt: now } });
+  },
+});
+
+const rateLimiter = createRateLimiter(redis);
+
+export default rateLimiter;
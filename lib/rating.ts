@@ -0,0 +1,158 @@
+import { RatingBreakdown, RatingComponent, RatingPolicy, TaskCategory } from '@/types';
+
+export interface RatingInput {
+  goalHours: number;
+  screenTimeHours: number;
+  hoursByCategory: Record<string, number>; // Verified hours by category id
+  categories: TaskCategory[];
+  activeDays: number; // Days with at least one verified task
+  daysAtDailyTarget: number; // Days whose verified hours reached that day's limit
+  dailyLimitHours: number[]; // Each weekday's limit, Monday first (see lib/dailyLimit.ts)
+}
+
+// Up to 7 points for the goal, 2 for working on most days and 1 for spreading
+// time across categories; screen time takes off 1 point per 10 hours, at most 4.
+export const DEFAULT_RATING_POLICY: RatingPolicy = {
+  goalWeight: 7,
+  goalProgressCap: 1,
+  consistencyWeight: 2,
+  consistencyTargetDays: 5,
+  balanceWeight: 1,
+  dailyTargetBonus: 0,
+  screenTimeAllowanceHours: 0,
+  screenTimeHoursPerPoint: 10,
+  maxScreenTimePenalty: 4,
+  categoryMultipliers: {}, // Missing categories count 1
+};
+
+export const resolveRatingPolicy = (profile?: { ratingPolicy?: RatingPolicy } | null): RatingPolicy => ({
+  ...DEFAULT_RATING_POLICY,
+  ...profile?.ratingPolicy,
+  categoryMultipliers: { ...DEFAULT_RATING_POLICY.categoryMultipliers, ...profile?.ratingPolicy?.categoryMultipliers },
+});
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Share of the balance points earned. With weekly targets set, the average
+// progress towards them; otherwise how evenly hours spread over the categories
+// (1 when equal, 0 when all in one).
+const categoryBalance = (input: RatingInput): { value: number; label: string; detail: string } => {
+  const hours = (id: string) => input.hoursByCategory[id] || 0;
+  const targeted = input.categories.filter(c => c.weeklyTargetHours);
+  if (targeted.length > 0) {
+    const value = targeted.reduce((acc, c) => acc + Math.min(1, hours(c.id) / c.weeklyTargetHours!), 0) / targeted.length;
+    return {
+      value,
+      label: 'Category targets',
+      detail: targeted.map(c => `${c.name} ${round1(hours(c.id))}/${c.weeklyTargetHours}h`).join(', '),
+    };
+  }
+
+  const total = input.categories.reduce((acc, c) => acc + hours(c.id), 0);
+  const n = input.categories.length;
+  const largestShare = total > 0 ? Math.max(...input.categories.map(c => hours(c.id))) / total : 1;
+  return {
+    value: total > 0 && n > 1 ? (1 - largestShare) / (1 - 1 / n) : 0,
+    label: 'Category balance',
+    detail: input.categories.map(c => `${round1(hours(c.id))}h ${c.name.toLowerCase()}`).join(', '),
+  };
+};
+
+const describeDailyLimits = (limits: number[]) => {
+  const low = round1(Math.min(...limits));
+  const high = round1(Math.max(...limits));
+  return low === high ? `the ${low}h daily limit` : `the daily limit (${low}-${high}h by weekday)`;
+};
+
+export const computeRatingComponents = (input: RatingInput, policy: RatingPolicy = DEFAULT_RATING_POLICY): RatingComponent[] => {
+  const countedHours = Object.entries(input.hoursByCategory)
+    .reduce((acc, [id, hours]) => acc + hours * (policy.categoryMultipliers[id] ?? 1), 0);
+
+  const progress = input.goalHours > 0 ? Math.min(policy.goalProgressCap, countedHours / input.goalHours) : 0;
+  const consistency = Math.min(1, input.activeDays / policy.consistencyTargetDays);
+  const balance = categoryBalance(input);
+  const chargeableScreenTime = Math.max(0, input.screenTimeHours - policy.screenTimeAllowanceHours);
+  const penalty = Math.min(policy.maxScreenTimePenalty, chargeableScreenTime / policy.screenTimeHoursPerPoint);
+  const multiplied = Object.values(policy.categoryMultipliers).some(multiplier => multiplier !== 1);
+
+  const components: RatingComponent[] = [
+    {
+      key: 'goalProgress',
+      label: 'Goal progress',
+      points: round1(progress * policy.goalWeight),
+      maxPoints: round1(policy.goalWeight * policy.goalProgressCap),
+      detail: `${round1(countedHours)}h${multiplied ? ' weighted' : ''} of ${input.goalHours}h goal (${Math.round((input.goalHours > 0 ? countedHours / input.goalHours : 0) * 100)}%)`,
+    },
+    {
+      key: 'consistency',
+      label: 'Consistency',
+      points: round1(consistency * policy.consistencyWeight),
+      maxPoints: policy.consistencyWeight,
+      detail: `Verified work on ${input.activeDays} of ${policy.consistencyTargetDays} target days`,
+    },
+    {
+      key: 'balance',
+      label: balance.label,
+      points: round1(balance.value * policy.balanceWeight),
+      maxPoints: policy.balanceWeight,
+      detail: balance.detail,
+    },
+  ];
+
+  if (policy.dailyTargetBonus > 0) {
+    components.push({
+      key: 'dailyTarget',
+      label: 'Daily limit',
+      points: round1((Math.min(7, input.daysAtDailyTarget) / 7) * policy.dailyTargetBonus),
+      maxPoints: policy.dailyTargetBonus,
+      detail: `Reached ${describeDailyLimits(input.dailyLimitHours)} on ${input.daysAtDailyTarget} of 7 days`,
+    });
+  }
+
+  components.push({
+    key: 'screenTime',
+    label: 'Screen time',
+    points: -round1(penalty),
+    maxPoints: policy.maxScreenTimePenalty,
+    detail: policy.screenTimeAllowanceHours > 0
+      ? `${round1(input.screenTimeHours)}h logged, ${policy.screenTimeAllowanceHours}h free, then -1 per ${policy.screenTimeHoursPerPoint}h`
+      : `${round1(input.screenTimeHours)}h logged, -1 per ${policy.screenTimeHoursPerPoint}h`,
+  });
+
+  return components;
+};
+
+export const scoreComponents = (components: RatingComponent[]) =>
+  Math.max(0, Math.min(10, round1(components.reduce((acc, c) => acc + c.points, 0))));
+
+// Plain-language summary used when no model is available to write one.
+export const describeRating = (components: RatingComponent[], score: number) => {
+  const gains = components.filter(c => c.points > 0 && c.maxPoints > 0 && c.key !== 'screenTime');
+  const best = [...gains].sort((a, b) => b.points / b.maxPoints - a.points / a.maxPoints)[0];
+  const weakest = components
+    .filter(c => c.key !== 'screenTime' && c.maxPoints > 0)
+    .sort((a, b) => a.points / a.maxPoints - b.points / b.maxPoints)[0];
+  const screen = components.find(c => c.key === 'screenTime');
+
+  const parts = [`Rated ${score}/10.`];
+  if (best) parts.push(`Strongest area: ${best.label.toLowerCase()} (${best.detail}).`);
+  if (weakest && weakest !== best) parts.push(`Most room to improve: ${weakest.label.toLowerCase()} (${weakest.detail}).`);
+  if (screen && screen.points < 0) parts.push(`Screen time cost ${-screen.points} point${screen.points === -1 ? '' : 's'}.`);
+  return parts.join(' ');
+};
+
+export const buildRatingBreakdown = (
+  input: RatingInput,
+  policy: RatingPolicy = DEFAULT_RATING_POLICY,
+  explanation?: string,
+  explainedBy = 'template'
+): RatingBreakdown => {
+  const components = computeRatingComponents(input, policy);
+  const score = scoreComponents(components);
+  return {
+    score,
+    components,
+    explanation: explanation || describeRating(components, score),
+    explainedBy: explanation ? explainedBy : 'template',
+  };
+};
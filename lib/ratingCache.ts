@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+import redis from '@/lib/redis';
+import { Store } from '@/lib/store';
+import { keys } from '@/lib/keys';
+import { RatingComponent } from '@/types';
+
+interface CachedExplanation {
+  explanation: string;
+  explainedBy: string;
+  cachedAt: number;
+}
+
+export interface RatingCache {
+  get(userId: string, components: RatingComponent[]): Promise<CachedExplanation | null>;
+  put(userId: string, components: RatingComponent[], explanation: string, explainedBy: string): Promise<void>;
+}
+
+// Enough to cover a user's recent weeks and the edits within them
+export const MAX_CACHED_EXPLANATIONS = 100;
+
+// The explanation prompt is built from the scored components alone, so equal
+// components always get the same answer and can share a cache entry.
+const cacheKey = (components: RatingComponent[]) =>
+  crypto.createHash('sha256').update(JSON.stringify(components)).digest('hex');
+
+export const createRatingCache = (store: Store): RatingCache => ({
+  async get(userId, components) {
+    return store.hget<CachedExplanation>(keys.ratingCache(userId), cacheKey(components));
+  },
+  async put(userId, components, explanation, explainedBy) {
+    const key = keys.ratingCache(userId);
+    await store.hset<CachedExplanation>(key, { [cacheKey(components)]: { explanation, explainedBy, cachedAt: Date.now() } });
+
+    const entries = Object.entries(await store.hgetall<Record<string, CachedExplanation>>(key) || {});
+    if (entries.length > MAX_CACHED_EXPLANATIONS) {
+      const oldest = entries
+        .sort(([, a], [, b]) => a.cachedAt - b.cachedAt)
+        .slice(0, entries.length - MAX_CACHED_EXPLANATIONS)
+        .map(([field]) => field);
+      await store.hdel(key, ...oldest);
+    }
+  },
+});
+
+const ratingCache = createRatingCache(redis);
+
+export default ratingCache;
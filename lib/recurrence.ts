@@ -0,0 +1,70 @@
+// A small subset of iCalendar RRULEs, enough for repeating tasks:
+//   FREQ=DAILY[;INTERVAL=n]                 every day, or every n days
+//   FREQ=WEEKLY[;INTERVAL=n][;BYDAY=MO,WE]  on those weekdays every (n-th) week
+// Shared by the browser and the API.
+
+import { addDays, daysBetween, getDayIndexFromDateString } from '@/lib/dates';
+
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY';
+  interval: number;
+  byDay: number[]; // 0 = Monday ... 6 = Sunday; WEEKLY only
+}
+
+export const RRULE_DAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const DAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const MAX_INTERVAL = 365;
+
+// Returns null for anything outside the supported subset
+export const parseRRule = (text: string): RecurrenceRule | null => {
+  const parts = Object.fromEntries(
+    text.replace(/^RRULE:/i, '').split(';').filter(Boolean).map(part => {
+      const [key, value = ''] = part.split('=');
+      return [key.trim().toUpperCase(), value.trim().toUpperCase()];
+    })
+  );
+  const allowed = ['FREQ', 'INTERVAL', 'BYDAY'];
+  if (Object.keys(parts).some(key => !allowed.includes(key))) return null;
+
+  if (parts.FREQ !== 'DAILY' && parts.FREQ !== 'WEEKLY') return null;
+  const interval = parts.INTERVAL === undefined ? 1 : Number(parts.INTERVAL);
+  if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) return null;
+
+  let byDay: number[] = [];
+  if (parts.BYDAY !== undefined) {
+    if (parts.FREQ !== 'WEEKLY') return null;
+    byDay = parts.BYDAY.split(',').map(day => RRULE_DAYS.indexOf(day));
+    if (byDay.length === 0 || byDay.includes(-1)) return null;
+    byDay = Array.from(new Set(byDay)).sort();
+  }
+  return { freq: parts.FREQ, interval, byDay };
+};
+
+export const formatRRule = (rule: RecurrenceRule) =>
+  [
+    `FREQ=${rule.freq}`,
+    ...(rule.interval > 1 ? [`INTERVAL=${rule.interval}`] : []),
+    ...(rule.freq === 'WEEKLY' && rule.byDay.length > 0 ? [`BYDAY=${rule.byDay.map(day => RRULE_DAYS[day]).join(',')}`] : []),
+  ].join(';');
+
+// "Every day", "Weekdays", "Every Mon, Wed, Fri", "Every 3 days", ...
+export const describeRRule = (rule: RecurrenceRule) => {
+  if (rule.freq === 'DAILY') return rule.interval === 1 ? 'Every day' : `Every ${rule.interval} days`;
+  const days = rule.byDay.join(',') === '0,1,2,3,4' ? 'Weekdays' : `Every ${rule.byDay.map(day => DAY_NAMES[day]).join(', ')}`;
+  return rule.interval === 1 ? days : `${days}, every ${rule.interval} weeks`;
+};
+
+// Whether the rule, counted from `startDate`, falls on `date` (both YYYY-MM-DD).
+// WEEKLY without BYDAY repeats on the start date's weekday.
+export const occursOn = (rule: RecurrenceRule, startDate: string, date: string) => {
+  const days = daysBetween(startDate, date);
+  if (days < 0) return false;
+  if (rule.freq === 'DAILY') return days % rule.interval === 0;
+
+  const weekday = getDayIndexFromDateString(date);
+  const byDay = rule.byDay.length > 0 ? rule.byDay : [getDayIndexFromDateString(startDate)];
+  if (!byDay.includes(weekday)) return false;
+  const startMonday = addDays(startDate, -getDayIndexFromDateString(startDate));
+  const weeks = Math.floor(daysBetween(startMonday, date) / 7);
+  return weeks % rule.interval === 0;
+};
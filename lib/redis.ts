@@ -1,34 +1,35 @@
-import { Redis } from '@upstash/redis';
+import { Store } from '@/lib/store';
+import { createUpstashStore, hasUpstashConfig } from '@/lib/drivers/upstash';
+import { createTcpStore } from '@/lib/drivers/tcp';
+import { createFileStore } from '@/lib/drivers/file';
 
-let redisUrl = process.env.UPSTASH_REDIS_URL || process.env.REDIS_URL || process.env.KV_REST_API_URL;
-let redisToken = process.env.UPSTASH_REDIS_REST_TOKEN || process.env.REDIS_TOKEN || process.env.KV_REST_API_TOKEN;
+// STORAGE_DRIVER picks the backend explicitly: "upstash" (REST), "redis" (TCP,
+// uses REDIS_URL) or "file" (LOCAL_STORE_PATH, default .data/store.json).
+// Without it, Upstash is used when configured, then a redis:// REDIS_URL, and
+// finally the local file so the app runs offline.
+const resolveDriver = () => {
+  const explicit = process.env.STORAGE_DRIVER;
+  if (explicit) return explicit;
+  if (hasUpstashConfig()) return 'upstash';
+  if (process.env.REDIS_URL?.startsWith('redis')) return 'redis';
+  return 'file';
+};
 
-if (redisUrl && redisUrl.includes('default_ro')) {
-  console.error("CRITICAL ERROR: You are using the 'default_ro' (Read-Only) Redis connection string. NextAuth cannot create users. Please use the standard connection string or REST API token.");
-}
-
-// Convert rediss:// or redis:// upstash URLs to REST URLs
-if (redisUrl && (redisUrl.startsWith('redis://') || redisUrl.startsWith('rediss://'))) {
-  try {
-    const parsedUrl = new URL(redisUrl);
-    if (parsedUrl.hostname.includes('upstash.io')) {
-      redisUrl = `https://${parsedUrl.hostname}`;
-      if (parsedUrl.password) {
-        redisToken = parsedUrl.password;
-      }
-    }
-  } catch (e) {
-    console.error("Failed to parse REDIS_URL", e);
+const createStore = (): Store => {
+  const driver = resolveDriver();
+  switch (driver) {
+    case 'upstash':
+      return createUpstashStore();
+    case 'redis':
+      if (!process.env.REDIS_URL) throw new Error("STORAGE_DRIVER=redis requires REDIS_URL");
+      return createTcpStore(process.env.REDIS_URL);
+    case 'file':
+      return createFileStore(process.env.LOCAL_STORE_PATH || '.data/store.json');
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
   }
-}
-
-if (!redisUrl || !redisToken) {
-  console.warn("WARNING: UPSTASH_REDIS_URL or UPSTASH_REDIS_REST_TOKEN is not defined. Redis calls will fail.");
-}
+};
 
-const redis = new Redis({
-  url: redisUrl || 'http://localhost:8079',
-  token: redisToken || 'example_token',
-});
+const redis = createStore();
 
 export default redis;
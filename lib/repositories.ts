@@ -0,0 +1,304 @@
+import redis from '@/lib/redis';
+import { Store } from '@/lib/store';
+import { keys } from '@/lib/keys';
+import { ensureMigrated } from '@/lib/migrations';
+import {
+  ValidationError,
+  parseTask,
+  parseWeeklyStats,
+  parseScreenTimeEntry,
+  parseUserProfile,
+  parseEvidence,
+  parseVerificationAttempt,
+  parseCoachingReport,
+  parseProject,
+  parseTaskTemplate,
+} from '@/lib/validation';
+import { Task, WeeklyStats, ScreenTimeEntry, UserProfile, Evidence, VerificationAttempt, CoachingReport, Project, TaskTemplate } from '@/types';
+
+export interface TaskRepo {
+  list(userId: string): Promise<Task[]>;
+  get(userId: string, taskId: string): Promise<Task | null>;
+  save(userId: string, task: unknown): Promise<Task>;
+  remove(userId: string, taskId: string): Promise<void>;
+}
+
+export interface StatsRepo {
+  list(userId: string): Promise<WeeklyStats[]>;
+  get(userId: string, weekId: string): Promise<WeeklyStats | null>;
+  save(userId: string, stats: unknown): Promise<WeeklyStats>;
+  saveMany(userId: string, stats: unknown[]): Promise<WeeklyStats[]>;
+  remove(userId: string, weekId: string): Promise<void>;
+  listDeleted(userId: string): Promise<string[]>;
+}
+
+export interface ScreenTimeRepo {
+  list(userId: string): Promise<ScreenTimeEntry[]>;
+  add(userId: string, entry: unknown): Promise<ScreenTimeEntry>;
+}
+
+export interface ProfileRepo {
+  get(userId: string): Promise<UserProfile | null>;
+  save(userId: string, profile: unknown): Promise<UserProfile>;
+}
+
+export interface EvidenceRepo {
+  get(userId: string, hash: string): Promise<Evidence | null>;
+  save(userId: string, evidence: unknown): Promise<Evidence>;
+}
+
+// Append-only: attempts are an audit trail and can't be edited or removed
+export interface VerificationRepo {
+  list(userId: string, taskId?: string): Promise<VerificationAttempt[]>;
+  add(userId: string, attempt: unknown): Promise<VerificationAttempt>;
+}
+
+// One report per week; regenerating a week replaces its report
+export interface ReportRepo {
+  list(userId: string): Promise<CoachingReport[]>;
+  get(userId: string, weekId: string): Promise<CoachingReport | null>;
+  save(userId: string, report: unknown): Promise<CoachingReport>;
+  remove(userId: string, weekId: string): Promise<void>;
+}
+
+export interface ProjectRepo {
+  list(userId: string): Promise<Project[]>;
+  get(userId: string, projectId: string): Promise<Project | null>;
+  save(userId: string, project: unknown): Promise<Project>;
+  remove(userId: string, projectId: string): Promise<void>;
+}
+
+export interface TemplateRepo {
+  list(userId: string): Promise<TaskTemplate[]>;
+  get(userId: string, templateId: string): Promise<TaskTemplate | null>;
+  save(userId: string, template: unknown): Promise<TaskTemplate>;
+  remove(userId: string, templateId: string): Promise<void>;
+}
+
+export interface Repositories {
+  tasks: TaskRepo;
+  stats: StatsRepo;
+  screentime: ScreenTimeRepo;
+  profiles: ProfileRepo;
+  evidence: EvidenceRepo;
+  verifications: VerificationRepo;
+  reports: ReportRepo;
+  projects: ProjectRepo;
+  templates: TemplateRepo;
+}
+
+// Stored records that no longer validate are skipped (and logged) rather than
+// failing the whole read, so one bad write can't take a user's data offline.
+const readOne = <T>(parse: (value: unknown) => T, value: unknown, key: string): T | null => {
+  if (value === null || value === undefined) return null;
+  try {
+    return parse(value);
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    console.warn(`Skipping invalid record at ${key}: ${error.message}`);
+    return null;
+  }
+};
+
+const readAll = <T>(parse: (value: unknown) => T, hash: Record<string, unknown> | null, key: string): T[] =>
+  Object.entries(hash || {})
+    .map(([field, value]) => readOne(parse, value, `${key}#${field}`))
+    .filter((value): value is T => value !== null);
+
+export interface RepositoryOptions {
+  // Runs before the first access to a user's data, e.g. to apply migrations
+  prepare?: (userId: string) => Promise<void>;
+}
+
+export const createRepositories = (store: Store, { prepare }: RepositoryOptions = {}): Repositories => {
+  const ready = (userId: string) => prepare ? prepare(userId) : Promise.resolve();
+
+  return {
+    tasks: {
+      async list(userId) {
+        await ready(userId);
+        return readAll(parseTask, await store.hgetall(keys.tasks(userId)), keys.tasks(userId));
+      },
+      async get(userId, taskId) {
+        await ready(userId);
+        return readOne(parseTask, await store.hget(keys.tasks(userId), taskId), keys.tasks(userId));
+      },
+      async save(userId, value) {
+        await ready(userId);
+        const task = parseTask(value);
+        await store.hset(keys.tasks(userId), { [task.id]: task });
+        return task;
+      },
+      async remove(userId, taskId) {
+        await ready(userId);
+        await store.hdel(keys.tasks(userId), taskId);
+      },
+    },
+
+    stats: {
+      async list(userId) {
+        await ready(userId);
+        return readAll(parseWeeklyStats, await store.hgetall(keys.stats(userId)), keys.stats(userId));
+      },
+      async get(userId, weekId) {
+        await ready(userId);
+        return readOne(parseWeeklyStats, await store.hget(keys.stats(userId), weekId), keys.stats(userId));
+      },
+      async save(userId, value) {
+        await ready(userId);
+        const stats = parseWeeklyStats(value);
+        await store.hset(keys.stats(userId), { [stats.weekId]: stats });
+        return stats;
+      },
+      async saveMany(userId, values) {
+        await ready(userId);
+        const stats = values.map(parseWeeklyStats);
+        if (stats.length > 0) {
+          await store.hset(keys.stats(userId), Object.fromEntries(stats.map(s => [s.weekId, s])));
+        }
+        return stats;
+      },
+      async remove(userId, weekId) {
+        await ready(userId);
+        await store.hdel(keys.stats(userId), weekId);
+        await store.hset(keys.deletedWeeks(userId), { [weekId]: Date.now() });
+      },
+      async listDeleted(userId) {
+        await ready(userId);
+        return Object.keys(await store.hgetall(keys.deletedWeeks(userId)) || {});
+      },
+    },
+
+    screentime: {
+      async list(userId) {
+        await ready(userId);
+        return readAll(parseScreenTimeEntry, await store.hgetall(keys.screentime(userId)), keys.screentime(userId));
+      },
+      // Entries are keyed by date; several submissions on one day add up
+      async add(userId, value) {
+        await ready(userId);
+        const entry = parseScreenTimeEntry(value);
+        const existing = readOne(parseScreenTimeEntry, await store.hget(keys.screentime(userId), entry.date), keys.screentime(userId));
+        const merged = parseScreenTimeEntry(existing ? { ...entry, hours: existing.hours + entry.hours } : entry);
+        await store.hset(keys.screentime(userId), { [merged.date]: merged });
+        return merged;
+      },
+    },
+
+    profiles: {
+      async get(userId) {
+        await ready(userId);
+        return readOne(parseUserProfile, await store.get(keys.profile(userId)), keys.profile(userId));
+      },
+      async save(userId, value) {
+        await ready(userId);
+        const profile = parseUserProfile(value);
+        await store.set(keys.profile(userId), profile);
+        return profile;
+      },
+    },
+
+    evidence: {
+      async get(userId, hash) {
+        await ready(userId);
+        return readOne(parseEvidence, await store.hget(keys.evidence(userId), hash), keys.evidence(userId));
+      },
+      // Content-addressed, so saving the same image twice is a no-op
+      async save(userId, value) {
+        await ready(userId);
+        const evidence = parseEvidence(value);
+        const existing = readOne(parseEvidence, await store.hget(keys.evidence(userId), evidence.hash), keys.evidence(userId));
+        if (existing) return existing;
+        await store.hset(keys.evidence(userId), { [evidence.hash]: evidence });
+        return evidence;
+      },
+    },
+
+    verifications: {
+      async list(userId, taskId) {
+        await ready(userId);
+        return readAll(parseVerificationAttempt, await store.hgetall(keys.verifications(userId)), keys.verifications(userId))
+          .filter(attempt => !taskId || attempt.taskId === taskId)
+          .sort((a, b) => a.attemptedAt - b.attemptedAt);
+      },
+      async add(userId, value) {
+        await ready(userId);
+        const attempt = parseVerificationAttempt(value);
+        if (await store.hget(keys.verifications(userId), attempt.id)) {
+          throw new ValidationError('verification attempt', [`${attempt.id} already exists`]);
+        }
+        await store.hset(keys.verifications(userId), { [attempt.id]: attempt });
+        return attempt;
+      },
+    },
+
+    reports: {
+      async list(userId) {
+        await ready(userId);
+        return readAll(parseCoachingReport, await store.hgetall(keys.reports(userId)), keys.reports(userId));
+      },
+      async get(userId, weekId) {
+        await ready(userId);
+        return readOne(parseCoachingReport, await store.hget(keys.reports(userId), weekId), keys.reports(userId));
+      },
+      async save(userId, value) {
+        await ready(userId);
+        const report = parseCoachingReport(value);
+        await store.hset(keys.reports(userId), { [report.weekId]: report });
+        return report;
+      },
+      async remove(userId, weekId) {
+        await ready(userId);
+        await store.hdel(keys.reports(userId), weekId);
+      },
+    },
+
+    projects: {
+      async list(userId) {
+        await ready(userId);
+        return readAll(parseProject, await store.hgetall(keys.projects(userId)), keys.projects(userId))
+          .sort((a, b) => a.createdAt - b.createdAt);
+      },
+      async get(userId, projectId) {
+        await ready(userId);
+        return readOne(parseProject, await store.hget(keys.projects(userId), projectId), keys.projects(userId));
+      },
+      async save(userId, value) {
+        await ready(userId);
+        const project = parseProject(value);
+        await store.hset(keys.projects(userId), { [project.id]: project });
+        return project;
+      },
+      async remove(userId, projectId) {
+        await ready(userId);
+        await store.hdel(keys.projects(userId), projectId);
+      },
+    },
+
+    templates: {
+      async list(userId) {
+        await ready(userId);
+        return readAll(parseTaskTemplate, await store.hgetall(keys.templates(userId)), keys.templates(userId))
+          .sort((a, b) => a.createdAt - b.createdAt);
+      },
+      async get(userId, templateId) {
+        await ready(userId);
+        return readOne(parseTaskTemplate, await store.hget(keys.templates(userId), templateId), keys.templates(userId));
+      },
+      async save(userId, value) {
+        await ready(userId);
+        const template = parseTaskTemplate(value);
+        await store.hset(keys.templates(userId), { [template.id]: template });
+        return template;
+      },
+      async remove(userId, templateId) {
+        await ready(userId);
+        await store.hdel(keys.templates(userId), templateId);
+      },
+    },
+  };
+};
+
+const repos = createRepositories(redis, { prepare: userId => ensureMigrated(redis, userId) });
+
+export default repos;
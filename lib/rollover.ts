@@ -0,0 +1,81 @@
+import redis from '@/lib/redis';
+import { scanKeys } from '@/lib/store';
+import { keys } from '@/lib/keys';
+import repos from '@/lib/repositories';
+import { closeWeeks } from '@/lib/streaks';
+import { getUserTimeZone, getWeekId, getWeekDateRange } from '@/lib/dates';
+import { recomputeWeek } from '@/lib/weeklyStats';
+import { generateWeeklyReport } from '@/lib/coaching';
+import { WeeklyStats } from '@/types';
+
+export interface RolloverResult {
+  userId: string;
+  sealedWeekIds: string[];
+  currentWeekId: string;
+  createdCurrentWeek: boolean;
+}
+
+// Seals every finished week that isn't sealed yet (final totals and rating,
+// keeping the goal that was in effect), writes its coaching report, refreshes
+// streaks and makes sure the current week exists. Safe to run any number of times.
+export async function rolloverUser(userId: string, now: Date = new Date()): Promise<RolloverResult | null> {
+  const profile = await repos.profiles.get(userId);
+  if (!profile) return null;
+
+  const timeZone = getUserTimeZone(profile);
+  const currentWeekId = getWeekId(now, timeZone);
+
+  const storedWeeks = await repos.stats.list(userId);
+  const sealedWeekIds: string[] = [];
+  const sealFinishedWeeks = async (weeks: WeeklyStats[]) => {
+    for (const week of weeks) {
+      if (week.weekId >= currentWeekId || week.sealedAt) continue;
+      await recomputeWeek(userId, week.weekId, {
+        goalHours: week.goalHours ?? profile.weeklyGoalHours,
+        sealedAt: now.getTime(),
+      });
+      sealedWeekIds.push(week.weekId);
+    }
+  };
+
+  // Final totals first, so streaks are judged on them. Closing the weeks
+  // backfills the ones never opened; those are sealed after.
+  await sealFinishedWeeks(storedWeeks);
+  await closeWeeks(userId, now);
+  await sealFinishedWeeks(await repos.stats.list(userId));
+
+  // Oldest first, so each report can look back at the weeks before it. A
+  // failed report doesn't stop the rollover; it can be regenerated from History.
+  for (const weekId of [...sealedWeekIds].sort()) {
+    try {
+      await generateWeeklyReport(userId, weekId);
+    } catch (error) {
+      console.error(`Failed to write report for ${userId} ${weekId}:`, error);
+    }
+  }
+
+  const createdCurrentWeek = !storedWeeks.some(week => week.weekId === currentWeekId);
+  if (createdCurrentWeek) {
+    await recomputeWeek(userId, currentWeekId, {
+      ...getWeekDateRange(currentWeekId, timeZone),
+      goalHours: profile.weeklyGoalHours,
+      streakActive: true,
+    });
+  }
+
+  return { userId, sealedWeekIds: sealedWeekIds.sort(), currentWeekId, createdCurrentWeek };
+}
+
+export async function listUserIds(): Promise<string[]> {
+  const profileKeys = await scanKeys(redis, keys.profile('*'));
+  return profileKeys.map(key => key.slice('user:'.length, -':profile'.length));
+}
+
+export async function rolloverAllUsers(now: Date = new Date()): Promise<RolloverResult[]> {
+  const results: RolloverResult[] = [];
+  for (const userId of await listUserIds()) {
+    const result = await rolloverUser(userId, now);
+    if (result) results.push(result);
+  }
+  return results;
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import redis from '@/lib/redis';
+import { getTombstone } from '@/lib/accounts';
+
+// Resolves the signed-in user and checks it owns the `userId` path param.
+// Returns an error response to send back, or null when access is allowed.
+export async function authorizeUser(userId: string): Promise<NextResponse | null> {
+  const session = await getServerSession(authOptions);
+  const sessionUserId = (session?.user as any)?.id;
+
+  if (!session || !sessionUserId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (sessionUserId !== userId) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  // A deleted account stays deleted, even if a stale session slips through
+  if (await getTombstone(redis, userId)) {
+    return NextResponse.json({ error: "Account deleted" }, { status: 410 });
+  }
+
+  return null;
+}
@@ -0,0 +1,124 @@
+// The subset of Redis the app relies on, implemented by every storage driver.
+// Values are JSON-serialisable and come back already parsed, matching how the
+// Upstash client behaves (NextAuth's adapter depends on that too).
+export interface Store {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T): Promise<unknown>;
+  del(...keys: string[]): Promise<number>;
+  hget<T>(key: string, field: string): Promise<T | null>;
+  hgetall<T extends Record<string, unknown>>(key: string): Promise<T | null>;
+  hset<T>(key: string, values: Record<string, T>): Promise<number>;
+  hdel(key: string, ...fields: string[]): Promise<number>;
+  hincrby(key: string, field: string, increment: number): Promise<number>;
+  scan(cursor: string, options: { match?: string; count?: number }): Promise<[string, string[]]>;
+}
+
+// Same rules as @upstash/redis: strings are stored as-is, everything else as
+// JSON, and reads parse JSON when they can.
+export const serialize = (value: unknown) => typeof value === 'string' ? value : JSON.stringify(value);
+
+export const deserialize = <T>(raw: string | null | undefined): T | null => {
+  if (raw === null || raw === undefined) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return raw as unknown as T;
+  }
+};
+
+export const globToRegExp = (pattern: string) =>
+  new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+
+// Walks a SCAN cursor to the end and returns every matching key.
+export async function scanKeys(store: Store, match: string): Promise<string[]> {
+  const found: string[] = [];
+  let cursor = '0';
+  do {
+    const [next, keys] = await store.scan(cursor, { match, count: 100 });
+    cursor = String(next);
+    found.push(...keys);
+  } while (cursor !== '0');
+  return found;
+}
+
+export interface StoreData {
+  strings: Record<string, string>;
+  hashes: Record<string, Record<string, string>>;
+}
+
+// Runs Redis semantics over a plain object. `load` returns the current data and
+// `save` is called after every write, which is all a persistent driver needs.
+export const createDataStore = (load: () => StoreData, save: (data: StoreData) => void): Store => ({
+  async get<T>(key: string) {
+    return deserialize<T>(load().strings[key]);
+  },
+  async set<T>(key: string, value: T) {
+    const data = load();
+    data.strings[key] = serialize(value);
+    save(data);
+    return 'OK';
+  },
+  async del(...keys: string[]) {
+    const data = load();
+    let removed = 0;
+    keys.forEach(key => {
+      if (key in data.strings || key in data.hashes) removed++;
+      delete data.strings[key];
+      delete data.hashes[key];
+    });
+    if (removed > 0) save(data);
+    return removed;
+  },
+  async hget<T>(key: string, field: string) {
+    return deserialize<T>(load().hashes[key]?.[field]);
+  },
+  async hgetall<T extends Record<string, unknown>>(key: string) {
+    const hash = load().hashes[key];
+    if (!hash || Object.keys(hash).length === 0) return null;
+    return Object.fromEntries(Object.entries(hash).map(([field, raw]) => [field, deserialize(raw)])) as T;
+  },
+  async hset<T>(key: string, values: Record<string, T>) {
+    const data = load();
+    const hash = data.hashes[key] || {};
+    let added = 0;
+    for (const [field, value] of Object.entries(values)) {
+      if (!(field in hash)) added++;
+      hash[field] = serialize(value);
+    }
+    data.hashes[key] = hash;
+    save(data);
+    return added;
+  },
+  async hdel(key: string, ...fields: string[]) {
+    const data = load();
+    const hash = data.hashes[key];
+    if (!hash) return 0;
+    const removed = fields.filter(field => field in hash);
+    removed.forEach(field => delete hash[field]);
+    if (Object.keys(hash).length === 0) delete data.hashes[key];
+    if (removed.length > 0) save(data);
+    return removed.length;
+  },
+  async hincrby(key: string, field: string, increment: number) {
+    const data = load();
+    const hash = data.hashes[key] || {};
+    const value = (parseInt(hash[field] ?? '0', 10) || 0) + increment;
+    hash[field] = String(value);
+    data.hashes[key] = hash;
+    save(data);
+    return value;
+  },
+  // Returns every match in one page; the keyspace of a local store is small
+  async scan(cursor: string, { match = '*' }: { match?: string; count?: number }) {
+    const data = load();
+    const re = globToRegExp(match);
+    const allKeys = Array.from(new Set([...Object.keys(data.strings), ...Object.keys(data.hashes)]));
+    return ['0', cursor === '0' ? allKeys.filter(key => re.test(key)) : []];
+  },
+});
+
+// In-process store for tests and scripts.
+export const createMemoryStore = (): Store => {
+  let data: StoreData = { strings: {}, hashes: {} };
+  return createDataStore(() => data, next => { data = next; });
+};
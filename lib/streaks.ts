@@ -0,0 +1,91 @@
+import repos from '@/lib/repositories';
+import { getUserTimeZone, getWeekId, getNextWeekId, getWeekDateRange, getWeekDateString } from '@/lib/dates';
+import { recomputeWeek } from '@/lib/weeklyStats';
+import { WeeklyStats } from '@/types';
+
+export const DEFAULT_STREAK_FREEZES_PER_QUARTER = 1;
+
+export interface StreakResult {
+  weeks: WeeklyStats[];
+  currentStreak: number;
+  longestStreak: number;
+}
+
+// Quarter is taken from the week's Thursday, same as the ISO week-year.
+const getQuarterKey = (weekId: string) => {
+  const [year, month] = getWeekDateString(weekId, 3).split('-').map(part => parseInt(part, 10));
+  return `${year}-Q${Math.floor((month - 1) / 3) + 1}`;
+};
+
+// Replays closed weeks oldest -> newest. A week that misses its goal spends a
+// freeze token for its quarter if one is left, otherwise the streak resets.
+// Pure, so replaying the full history is always safe.
+export const computeStreaks = (closedWeeks: WeeklyStats[], freezesPerQuarter: number): StreakResult => {
+  const freezesUsed: Record<string, number> = {};
+  let currentStreak = 0;
+  let longestStreak = 0;
+
+  const weeks = closedWeeks.map(week => {
+    if (week.completedHours >= week.goalHours) {
+      currentStreak++;
+      longestStreak = Math.max(longestStreak, currentStreak);
+      return { ...week, streakActive: true, streakFrozen: false };
+    }
+
+    const quarter = getQuarterKey(week.weekId);
+    if (currentStreak > 0 && (freezesUsed[quarter] || 0) < freezesPerQuarter) {
+      freezesUsed[quarter] = (freezesUsed[quarter] || 0) + 1;
+      return { ...week, streakActive: true, streakFrozen: true };
+    }
+
+    currentStreak = 0;
+    return { ...week, streakActive: false, streakFrozen: false };
+  });
+
+  return { weeks, currentStreak, longestStreak };
+};
+
+// Closes every week before the one containing `now`: backfills weeks the user
+// never opened (but not ones they deleted), re-evaluates streaks and stores the
+// result on stats and profile.
+export async function closeWeeks(userId: string, now: Date = new Date()): Promise<StreakResult | null> {
+  const profile = await repos.profiles.get(userId);
+  if (!profile) return null;
+
+  const statsByWeek = Object.fromEntries((await repos.stats.list(userId)).map(week => [week.weekId, week]));
+  const timeZone = getUserTimeZone(profile);
+  const currentWeekId = getWeekId(now, timeZone);
+  const closedIds = Object.keys(statsByWeek).filter(weekId => weekId < currentWeekId).sort();
+  const deletedIds = new Set(await repos.stats.listDeleted(userId));
+
+  const closedWeeks: WeeklyStats[] = [];
+  if (closedIds.length > 0) {
+    for (let weekId = closedIds[0]; weekId < currentWeekId; weekId = getNextWeekId(weekId)) {
+      if (!statsByWeek[weekId] && deletedIds.has(weekId)) continue;
+      const week = statsByWeek[weekId] || await recomputeWeek(userId, weekId, {
+        ...getWeekDateRange(weekId, timeZone),
+        goalHours: profile.weeklyGoalHours,
+        streakActive: false,
+      });
+      if (week) closedWeeks.push(week);
+    }
+  }
+
+  const result = computeStreaks(closedWeeks, profile.streakFreezesPerQuarter ?? DEFAULT_STREAK_FREEZES_PER_QUARTER);
+
+  const changed = result.weeks.filter(week => {
+    const stored = statsByWeek[week.weekId];
+    return !stored || stored.streakActive !== week.streakActive || !!stored.streakFrozen !== week.streakFrozen;
+  });
+  await repos.stats.saveMany(userId, changed);
+
+  if (profile.currentStreak !== result.currentStreak || profile.longestStreak !== result.longestStreak) {
+    await repos.profiles.save(userId, {
+      ...profile,
+      currentStreak: result.currentStreak,
+      longestStreak: result.longestStreak,
+    });
+  }
+
+  return result;
+}
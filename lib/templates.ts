@@ -0,0 +1,59 @@
+import repos from '@/lib/repositories';
+import { getDailyLimit, getDayLoad } from '@/lib/dailyLimit';
+import { parseRRule, occursOn } from '@/lib/recurrence';
+import { getLocalDateString, getUserTimeZone } from '@/lib/dates';
+import { Task, TaskTemplate, VerificationStatus } from '@/types';
+
+export interface MaterialiseResult {
+  created: Task[];
+  skipped: string[]; // Template ids due today but left out because the day was full
+}
+
+// The task a template creates on `date`. The id is fixed per template and day,
+// so overlapping runs can't create the same occurrence twice.
+export const occurrenceOf = (template: TaskTemplate, date: string, now: number): Task => ({
+  id: `${template.id}-${date}`,
+  title: template.title,
+  description: template.description,
+  categoryId: template.categoryId,
+  durationHours: template.durationHours,
+  projectId: template.projectId,
+  templateId: template.id,
+  plannedFor: date,
+  createdAt: now,
+  status: VerificationStatus.PENDING,
+});
+
+// Creates today's occurrences, in the user's time zone, for every active
+// template that falls on today and hasn't run today. Days the user didn't
+// open the app are not back-filled. A template is skipped when the day's load
+// has already reached the daily limit. Safe to run any number of times.
+export async function materialiseTemplates(userId: string, now: number = Date.now()): Promise<MaterialiseResult> {
+  const result: MaterialiseResult = { created: [], skipped: [] };
+  const profile = await repos.profiles.get(userId);
+  if (!profile) return result;
+
+  const timeZone = getUserTimeZone(profile);
+  const today = getLocalDateString(now, timeZone);
+  const due = (await repos.templates.list(userId)).filter(template => {
+    const rule = parseRRule(template.rrule);
+    return !template.pausedAt && rule && (template.lastRunDate || '') < today && occursOn(rule, template.startDate, today);
+  });
+  if (due.length === 0) return result;
+
+  const tasks = await repos.tasks.list(userId);
+  const limit = getDailyLimit(profile, today);
+  let load = getDayLoad(tasks, today, timeZone);
+
+  for (const template of due) {
+    const task = occurrenceOf(template, today, now);
+    if (load >= limit) {
+      result.skipped.push(template.id);
+    } else if (!tasks.some(t => t.id === task.id)) {
+      result.created.push(await repos.tasks.save(userId, task));
+      load += task.durationHours;
+    }
+    await repos.templates.save(userId, { ...template, lastRunDate: today });
+  }
+  return result;
+}
@@ -0,0 +1,360 @@
+import { isValidTimeZone } from '@/lib/dates';
+import { getProofKind } from '@/lib/proof';
+import { CATEGORY_ICONS, MAX_CATEGORIES } from '@/lib/categories';
+import { parseRRule } from '@/lib/recurrence';
+import {
+  Task,
+  TaskCategory,
+  VerificationStatus,
+  WeeklyStats,
+  ScreenTimeEntry,
+  UserProfile,
+  Evidence,
+  VerificationAttempt,
+  TaskAppeal,
+  EvidenceNote,
+  RatingBreakdown,
+  RatingComponent,
+  RatingPolicy,
+  CoachingReport,
+  Project,
+  TaskTemplate,
+  FocusSegment,
+  DurationCheck,
+  DailyLimitPolicy,
+  LimitOverride,
+} from '@/types';
+
+export class ValidationError extends Error {
+  constructor(public entity: string, public issues: string[]) {
+    super(`Invalid ${entity}: ${issues.join('; ')}`);
+    this.name = 'ValidationError';
+  }
+}
+
+interface FieldSpec {
+  check: (value: unknown) => boolean;
+  message: string;
+  optional?: boolean;
+  parse?: (value: unknown) => unknown; // Normalises nested values once they pass `check`
+}
+
+// Every field of the type must be described, so adding a field to types.ts
+// without a rule here fails to compile.
+type Schema<T> = { [K in keyof Required<T>]: FieldSpec };
+
+const string = (): FieldSpec => ({ check: v => typeof v === 'string', message: 'must be a string' });
+const nonEmptyString = (): FieldSpec => ({ check: v => typeof v === 'string' && v.trim().length > 0, message: 'must be a non-empty string' });
+const boolean = (): FieldSpec => ({ check: v => typeof v === 'boolean', message: 'must be a boolean' });
+const timestamp = (): FieldSpec => ({ check: v => typeof v === 'number' && Number.isFinite(v) && v > 0, message: 'must be a timestamp' });
+const pattern = (re: RegExp, label: string): FieldSpec => ({ check: v => typeof v === 'string' && re.test(v), message: `must be ${label}` });
+const oneOf = (values: readonly unknown[]): FieldSpec => ({ check: v => values.includes(v), message: `must be one of ${values.join(', ')}` });
+const number = (min: number, max = Infinity, { exclusiveMin = false } = {}): FieldSpec => ({
+  check: v => typeof v === 'number' && Number.isFinite(v) && (exclusiveMin ? v > min : v >= min) && v <= max,
+  message: `must be a number ${exclusiveMin ? '>' : '>='} ${min}${max !== Infinity ? ` and <= ${max}` : ''}`,
+});
+const integer = (min: number, max = Infinity): FieldSpec => ({
+  check: v => Number.isInteger(v) && (v as number) >= min && (v as number) <= max,
+  message: `must be an integer >= ${min}${max !== Infinity ? ` and <= ${max}` : ''}`,
+});
+const optional = (spec: FieldSpec): FieldSpec => ({ ...spec, optional: true });
+const arrayOf = (item: FieldSpec): FieldSpec => ({
+  check: v => Array.isArray(v) && v.every(item.check),
+  message: `must be an array of values that each ${item.message}`,
+  parse: item.parse ? v => (v as unknown[]).map(item.parse!) : undefined,
+});
+const recordOf = (item: FieldSpec): FieldSpec => ({
+  check: v => !!v && typeof v === 'object' && !Array.isArray(v) && Object.values(v).every(item.check),
+  message: `must be an object whose values each ${item.message}`,
+});
+const nested = <T>(entity: string, schema: Schema<T>): FieldSpec => ({
+  check: v => {
+    try {
+      validate(entity, schema, v);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  message: `must be a valid ${entity}`,
+  parse: v => validate(entity, schema, v),
+});
+
+const WEEK_ID = /^\d{4}-W(0[1-9]|[1-4]\d|5[0-3])$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const SHA256 = /^[a-f0-9]{64}$/;
+const CATEGORY_ID = /^[a-z0-9-]{1,32}$/;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Checks every declared field and drops anything undeclared.
+const validate = <T>(entity: string, schema: Schema<T>, value: unknown): T => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError(entity, ['must be an object']);
+  }
+
+  const input = value as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  const issues: string[] = [];
+
+  for (const [field, spec] of Object.entries(schema) as [string, FieldSpec][]) {
+    const fieldValue = input[field];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (!spec.optional) issues.push(`${field} is required`);
+      continue;
+    }
+    if (!spec.check(fieldValue)) {
+      issues.push(`${field} ${spec.message}`);
+      continue;
+    }
+    result[field] = spec.parse ? spec.parse(fieldValue) : fieldValue;
+  }
+
+  if (issues.length > 0) throw new ValidationError(entity, issues);
+  return result as T;
+};
+
+const VERDICTS = [VerificationStatus.VERIFIED, VerificationStatus.REJECTED];
+
+const appealSchema: Schema<TaskAppeal> = {
+  justification: nonEmptyString(),
+  submittedAt: timestamp(),
+  resolvedAt: optional(timestamp()),
+  outcome: optional(oneOf(VERDICTS)),
+};
+
+const focusSegmentSchema: Schema<FocusSegment> = {
+  startedAt: timestamp(),
+  endedAt: optional(timestamp()),
+  mode: oneOf(['POMODORO', 'FREE']),
+};
+
+const ENFORCEMENTS = ['WARN', 'BLOCK', 'JUSTIFY'];
+
+const limitOverrideSchema: Schema<LimitOverride> = {
+  date: pattern(DATE, 'a date (YYYY-MM-DD)'),
+  limitHours: number(0),
+  loadHours: number(0),
+  enforcement: oneOf(ENFORCEMENTS),
+  justification: optional(string()),
+  recordedAt: timestamp(),
+};
+
+const taskSchema: Schema<Task> = {
+  id: nonEmptyString(),
+  title: nonEmptyString(),
+  description: string(),
+  categoryId: pattern(CATEGORY_ID, 'a category id'),
+  durationHours: number(0, 24, { exclusiveMin: true }),
+  plannedFor: optional(pattern(DATE, 'a date (YYYY-MM-DD)')),
+  projectId: optional(nonEmptyString()),
+  templateId: optional(nonEmptyString()),
+  focusSegments: optional(arrayOf(nested('focus segment', focusSegmentSchema))),
+  limitOverride: optional(nested('limit override', limitOverrideSchema)),
+  createdAt: timestamp(),
+  completedAt: optional(timestamp()),
+  status: oneOf(Object.values(VerificationStatus)),
+  rejectionReason: optional(string()),
+  appeal: optional(nested('appeal', appealSchema)),
+};
+
+const ratingComponentSchema: Schema<RatingComponent> = {
+  key: oneOf(['goalProgress', 'screenTime', 'consistency', 'balance', 'dailyTarget']),
+  label: string(),
+  points: number(-Infinity),
+  maxPoints: number(0),
+  detail: string(),
+};
+
+const ratingBreakdownSchema: Schema<RatingBreakdown> = {
+  score: number(0, 10),
+  components: arrayOf(nested('rating component', ratingComponentSchema)),
+  explanation: string(),
+  explainedBy: string(),
+};
+
+const weeklyStatsSchema: Schema<WeeklyStats> = {
+  weekId: pattern(WEEK_ID, 'an ISO week id (YYYY-Www)'),
+  goalHours: number(0, 168, { exclusiveMin: true }),
+  completedHours: number(0),
+  screenTimeHours: number(0),
+  rating: number(0, 10),
+  streakActive: boolean(),
+  streakFrozen: optional(boolean()),
+  startDate: string(),
+  endDate: string(),
+  sealedAt: optional(timestamp()),
+  appealedHours: optional(number(0)),
+  appealsWon: optional(integer(0)),
+  appealsLost: optional(integer(0)),
+  ratingBreakdown: optional(nested('rating breakdown', ratingBreakdownSchema)),
+};
+
+const screenTimeSchema: Schema<ScreenTimeEntry> = {
+  date: pattern(DATE, 'a date (YYYY-MM-DD)'),
+  hours: number(0, 24),
+  submittedAt: timestamp(),
+};
+
+const categorySchema: Schema<TaskCategory> = {
+  id: pattern(CATEGORY_ID, 'lower-case letters, digits and dashes'),
+  name: nonEmptyString(),
+  color: pattern(HEX_COLOR, 'a hex colour (#rrggbb)'),
+  icon: oneOf(CATEGORY_ICONS),
+  weeklyTargetHours: optional(number(0, 168, { exclusiveMin: true })),
+};
+
+const projectSchema: Schema<Project> = {
+  id: nonEmptyString(),
+  name: nonEmptyString(),
+  description: optional(string()),
+  targetHours: optional(number(0, 10000, { exclusiveMin: true })),
+  deadline: optional(pattern(DATE, 'a date (YYYY-MM-DD)')),
+  createdAt: timestamp(),
+  archivedAt: optional(timestamp()),
+};
+
+const taskTemplateSchema: Schema<TaskTemplate> = {
+  id: nonEmptyString(),
+  title: nonEmptyString(),
+  description: string(),
+  categoryId: pattern(CATEGORY_ID, 'a category id'),
+  durationHours: number(0, 24, { exclusiveMin: true }),
+  projectId: optional(nonEmptyString()),
+  rrule: { check: v => typeof v === 'string' && parseRRule(v) !== null, message: 'must be a supported RRULE (FREQ=DAILY or WEEKLY, INTERVAL, BYDAY)' },
+  startDate: pattern(DATE, 'a date (YYYY-MM-DD)'),
+  createdAt: timestamp(),
+  pausedAt: optional(timestamp()),
+  lastRunDate: optional(pattern(DATE, 'a date (YYYY-MM-DD)')),
+};
+
+const categoryList = arrayOf(nested('category', categorySchema));
+
+const ratingPolicySchema: Schema<RatingPolicy> = {
+  goalWeight: number(0, 10),
+  goalProgressCap: number(1, 2),
+  consistencyWeight: number(0, 10),
+  consistencyTargetDays: { check: v => Number.isInteger(v) && (v as number) >= 1 && (v as number) <= 7, message: 'must be a whole number of days from 1 to 7' },
+  balanceWeight: number(0, 10),
+  dailyTargetBonus: number(0, 10),
+  screenTimeAllowanceHours: number(0, 168),
+  screenTimeHoursPerPoint: number(0, 168, { exclusiveMin: true }),
+  maxScreenTimePenalty: number(0, 10),
+  categoryMultipliers: recordOf(number(0, 5)),
+};
+
+const dailyLimitPolicySchema: Schema<DailyLimitPolicy> = {
+  enforcement: oneOf(ENFORCEMENTS),
+  weekdayHours: optional({
+    check: v => Array.isArray(v) && v.length === 7 && v.every(number(0, 24).check),
+    message: 'must be seven numbers from 0 to 24, Monday first',
+  }),
+};
+
+// A quarter has 13 weeks; more freezes than this would make streaks meaningless
+export const MAX_STREAK_FREEZES_PER_QUARTER = 4;
+
+const profileSchema: Schema<UserProfile> = {
+  name: string(),
+  email: string(),
+  avatarUrl: string(),
+  weeklyGoalHours: number(0, 168, { exclusiveMin: true }),
+  currentStreak: integer(0),
+  longestStreak: optional(integer(0)),
+  streakFreezesPerQuarter: optional(integer(0, MAX_STREAK_FREEZES_PER_QUARTER)),
+  timezone: optional({ check: v => typeof v === 'string' && isValidTimeZone(v), message: 'must be an IANA time zone' }),
+  ratingPolicy: optional(nested('rating policy', ratingPolicySchema)),
+  categories: optional({
+    ...categoryList,
+    check: v => categoryList.check(v) && (v as TaskCategory[]).length <= MAX_CATEGORIES &&
+      new Set((v as TaskCategory[]).map(c => c.id)).size === (v as TaskCategory[]).length,
+    message: `must be at most ${MAX_CATEGORIES} categories with unique ids`,
+  }),
+  dailyLimitPolicy: optional(nested('daily limit policy', dailyLimitPolicySchema)),
+  googleId: optional(string()),
+};
+
+const evidenceSchema: Schema<Evidence> = {
+  hash: pattern(SHA256, 'a SHA-256 hex digest'),
+  mimeType: { check: v => typeof v === 'string' && getProofKind(v) !== null, message: 'must be a supported proof type' },
+  data: nonEmptyString(),
+  size: integer(1),
+  createdAt: timestamp(),
+};
+
+const evidenceNoteSchema: Schema<EvidenceNote> = {
+  evidenceHash: pattern(SHA256, 'a SHA-256 hex digest'),
+  mimeType: string(),
+  note: optional(string()),
+};
+
+const durationCheckSchema: Schema<DurationCheck> = {
+  claimedHours: number(0),
+  trackedHours: number(0),
+  flagged: boolean(),
+};
+
+const verificationAttemptSchema: Schema<VerificationAttempt> = {
+  id: nonEmptyString(),
+  taskId: nonEmptyString(),
+  attemptedAt: timestamp(),
+  kind: optional(oneOf(['VERIFICATION', 'APPEAL'])),
+  model: nonEmptyString(),
+  verdict: oneOf(VERDICTS),
+  reason: string(),
+  evidenceHash: pattern(SHA256, 'a SHA-256 hex digest'),
+  justification: optional(string()),
+  additionalEvidenceHashes: optional(arrayOf(pattern(SHA256, 'a SHA-256 hex digest'))),
+  items: optional(arrayOf(nested('evidence note', evidenceNoteSchema))),
+  durationCheck: optional(nested('duration check', durationCheckSchema)),
+};
+
+const coachingReportSchema: Schema<CoachingReport> = {
+  weekId: pattern(WEEK_ID, 'an ISO week id (YYYY-Www)'),
+  generatedAt: timestamp(),
+  generatedBy: nonEmptyString(),
+  retrospective: nonEmptyString(),
+  suggestions: arrayOf(string()),
+  recommendedGoalHours: number(0, 168, { exclusiveMin: true }),
+  weakestDay: pattern(DATE, 'a date (YYYY-MM-DD)'),
+  slippedCategories: arrayOf(pattern(CATEGORY_ID, 'a category id')),
+  limitOverrides: optional(arrayOf(nested('limit override', {
+    date: pattern(DATE, 'a date (YYYY-MM-DD)'),
+    title: string(),
+    loadHours: number(0),
+    limitHours: number(0),
+    justification: optional(string()),
+  }))),
+};
+
+// Declared field names per entity, for migrations that clean stored records
+export const declaredFields = {
+  task: Object.keys(taskSchema),
+  weeklyStats: Object.keys(weeklyStatsSchema),
+  screenTime: Object.keys(screenTimeSchema),
+  profile: Object.keys(profileSchema),
+  project: Object.keys(projectSchema),
+  taskTemplate: Object.keys(taskTemplateSchema),
+};
+
+export const parseTask = (value: unknown) => validate<Task>('task', taskSchema, value);
+export const parseWeeklyStats = (value: unknown) => validate<WeeklyStats>('weekly stats', weeklyStatsSchema, value);
+export const parseScreenTimeEntry = (value: unknown) => validate<ScreenTimeEntry>('screen time entry', screenTimeSchema, value);
+export const parseUserProfile = (value: unknown) => validate<UserProfile>('profile', profileSchema, value);
+export const parseCategories = (value: unknown) => {
+  const { categories } = validate<Pick<UserProfile, 'categories'>>('categories', { categories: profileSchema.categories }, { categories: value });
+  return categories || [];
+};
+export const parseProject = (value: unknown) => {
+  const project = validate<Project>('project', projectSchema, value);
+  if (project.targetHours === undefined && !project.deadline) {
+    throw new ValidationError('project', ['needs a target in hours or a deadline']);
+  }
+  return project;
+};
+export const parseTaskTemplate = (value: unknown) => validate<TaskTemplate>('task template', taskTemplateSchema, value);
+export const parseRatingPolicy = (value: unknown) => validate<RatingPolicy>('rating policy', ratingPolicySchema, value);
+export const parseDailyLimitPolicy = (value: unknown) => validate<DailyLimitPolicy>('daily limit policy', dailyLimitPolicySchema, value);
+export const parseEvidence = (value: unknown) => validate<Evidence>('evidence', evidenceSchema, value);
+export const parseCoachingReport = (value: unknown) => validate<CoachingReport>('coaching report', coachingReportSchema, value);
+export const parseVerificationAttempt = (value: unknown) =>
+  validate<VerificationAttempt>('verification attempt', verificationAttemptSchema, value);
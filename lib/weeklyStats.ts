@@ -0,0 +1,181 @@
+import repos from '@/lib/repositories';
+import { calculateWeeklyRating } from '@/services/geminiService';
+import { buildRatingBreakdown, resolveRatingPolicy } from '@/lib/rating';
+import { createKeyedDebouncer } from '@/lib/debounce';
+import metrics from '@/lib/metrics';
+import { resolveCategories } from '@/lib/categories';
+import { getDailyLimit, resolveDailyLimitPolicy } from '@/lib/dailyLimit';
+import { getLocalDateString, getUserTimeZone, getWeekDateString, getWeekId, getWeekIdFromDateString } from '@/lib/dates';
+import { Task, TaskCategory, ScreenTimeEntry, WeeklyStats, VerificationStatus, VerificationAttempt, RatingPolicy, RatingPreview, DailyLimitPolicy } from '@/types';
+
+// Sums verified task hours and submitted screen time for a week straight from
+// the tasks and screentime hashes, so concurrent writers can't drift the totals.
+// Appeal counts come from the attempt log, which re-uploads can't rewrite.
+export const deriveWeekTotals = (
+  weekId: string,
+  tasks: Task[],
+  screentime: ScreenTimeEntry[],
+  timeZone: string,
+  attempts: VerificationAttempt[] = [],
+  dailyLimit: (date: string) => number = () => Infinity
+) => {
+  const verifiedTasks = tasks
+    .filter(t => t.status === VerificationStatus.VERIFIED && t.completedAt && getWeekId(t.completedAt, timeZone) === weekId);
+  const completedHours = verifiedTasks.reduce((acc, t) => acc + t.durationHours, 0);
+  const hoursByCategory = verifiedTasks.reduce<Record<string, number>>((acc, t) => {
+    acc[t.categoryId] = (acc[t.categoryId] || 0) + t.durationHours;
+    return acc;
+  }, {});
+  const hoursByDay = verifiedTasks.reduce<Record<string, number>>((acc, t) => {
+    const day = getLocalDateString(t.completedAt!, timeZone);
+    acc[day] = (acc[day] || 0) + t.durationHours;
+    return acc;
+  }, {});
+  const activeDays = Object.keys(hoursByDay).length;
+  const daysAtDailyTarget = Object.entries(hoursByDay).filter(([day, hours]) => hours >= dailyLimit(day)).length;
+  const appealedHours = verifiedTasks
+    .filter(t => t.appeal?.outcome === VerificationStatus.VERIFIED)
+    .reduce((acc, t) => acc + t.durationHours, 0);
+
+  const appeals = attempts.filter(a => a.kind === 'APPEAL' && getWeekId(a.attemptedAt, timeZone) === weekId);
+  const appealsWon = appeals.filter(a => a.verdict === VerificationStatus.VERIFIED).length;
+  const appealsLost = appeals.length - appealsWon;
+
+  const screenTimeHours = screentime
+    .filter(st => st.date && getWeekIdFromDateString(st.date) === weekId)
+    .reduce((acc, st) => acc + st.hours, 0);
+
+  return {
+    completedHours,
+    screenTimeHours,
+    appealedHours,
+    appealsWon,
+    appealsLost,
+    hoursByCategory,
+    activeDays,
+    daysAtDailyTarget,
+  };
+};
+
+interface WeekSources {
+  tasks: Task[];
+  screentime: ScreenTimeEntry[];
+  attempts: VerificationAttempt[];
+  timeZone: string;
+  policy: RatingPolicy;
+  categories: TaskCategory[];
+  dailyLimitPolicy: DailyLimitPolicy;
+}
+
+const loadSources = async (userId: string): Promise<WeekSources> => {
+  const profile = await repos.profiles.get(userId);
+  return {
+    tasks: await repos.tasks.list(userId),
+    screentime: await repos.screentime.list(userId),
+    attempts: await repos.verifications.list(userId),
+    timeZone: getUserTimeZone(profile),
+    policy: resolveRatingPolicy(profile),
+    categories: resolveCategories(profile),
+    dailyLimitPolicy: resolveDailyLimitPolicy(profile),
+  };
+};
+
+// Separates the stored totals from the rating inputs. The daily target is the
+// task list's daily limit for each day, with the even share taken from the
+// week's own goal.
+const splitTotals = (stats: WeeklyStats, { tasks, screentime, attempts, timeZone, categories, dailyLimitPolicy }: WeekSources) => {
+  const dailyLimit = (date: string) => getDailyLimit({ weeklyGoalHours: stats.goalHours, dailyLimitPolicy }, date);
+  const { hoursByCategory, activeDays, daysAtDailyTarget, ...totals } =
+    deriveWeekTotals(stats.weekId, tasks, screentime, timeZone, attempts, dailyLimit);
+  const ratingInput = {
+    goalHours: stats.goalHours,
+    screenTimeHours: totals.screenTimeHours,
+    hoursByCategory,
+    categories,
+    activeDays,
+    daysAtDailyTarget,
+    dailyLimitHours: Array.from({ length: 7 }, (_, index) => dailyLimit(getWeekDateString(stats.weekId, index))),
+  };
+  return { totals, ratingInput };
+};
+
+const applyTotals = async (userId: string, stats: WeeklyStats, sources: WeekSources): Promise<WeeklyStats> => {
+  const { totals, ratingInput } = splitTotals(stats, sources);
+  const ratingBreakdown = await calculateWeeklyRating(userId, ratingInput, sources.policy);
+  return { ...stats, ...totals, rating: ratingBreakdown.score, ratingBreakdown };
+};
+
+const RECOMPUTE_DEBOUNCE_MS = 250;
+const RECOMPUTE_MAX_WAIT_MS = 1000;
+
+// A bulk delete fires one request per task; their re-derives of the same week
+// collapse into one recompute (and at most one rating call) per server instance.
+const debounceRecompute = createKeyedDebouncer(RECOMPUTE_DEBOUNCE_MS, RECOMPUTE_MAX_WAIT_MS, count => {
+  metrics.record('recompute.debounced', count);
+});
+
+// Recomputes and stores one week. `base` supplies the non-derived fields
+// (goal, dates) when creating or editing the week; otherwise the stored entry
+// is used and the call is debounced. Sealed weeks are returned as stored.
+// Returns null when the week has never been created.
+export async function recomputeWeek(
+  userId: string,
+  weekId: string,
+  base?: Partial<WeeklyStats>
+): Promise<WeeklyStats | null> {
+  if (!base) return debounceRecompute(`${userId}:${weekId}`, () => rederiveWeek(userId, weekId));
+  return rederiveWeek(userId, weekId, base);
+}
+
+async function rederiveWeek(userId: string, weekId: string, base?: Partial<WeeklyStats>): Promise<WeeklyStats | null> {
+  const stored = await repos.stats.get(userId, weekId);
+  if (!stored && !base) return null;
+  if (stored?.sealedAt) return stored;
+
+  const overrides = Object.fromEntries(Object.entries(base || {}).filter(([, v]) => v !== undefined));
+  const sources = await loadSources(userId);
+  const stats = await applyTotals(userId, { ...stored, ...overrides, weekId } as WeeklyStats, sources);
+
+  return repos.stats.save(userId, stats);
+}
+
+// Recomputes the week an instant (e.g. a task's completedAt) falls in for the user.
+export async function recomputeWeekContaining(userId: string, instant: number): Promise<WeeklyStats | null> {
+  const profile = await repos.profiles.get(userId);
+  return recomputeWeek(userId, getWeekId(instant, getUserTimeZone(profile)));
+}
+
+// Repairs every stored week for a user, e.g. after totals drifted. Unlike
+// recomputeWeek this also rewrites sealed weeks unless `includeSealed` is off.
+export async function recomputeAllWeeks(
+  userId: string,
+  { includeSealed = true }: { includeSealed?: boolean } = {}
+): Promise<WeeklyStats[]> {
+  const storedWeeks = (await repos.stats.list(userId)).filter(week => includeSealed || !week.sealedAt);
+  if (storedWeeks.length === 0) return [];
+
+  const sources = await loadSources(userId);
+  const results: WeeklyStats[] = [];
+  for (const stored of storedWeeks) {
+    results.push(await applyTotals(userId, stored, sources));
+  }
+
+  return repos.stats.saveMany(userId, results);
+}
+
+// Scores every stored week under `policy` without saving anything or asking
+// Gemini for explanations, so the settings page can show old vs new ratings.
+export async function previewRatings(userId: string, policy: RatingPolicy): Promise<RatingPreview[]> {
+  const storedWeeks = await repos.stats.list(userId);
+  if (storedWeeks.length === 0) return [];
+
+  const sources = await loadSources(userId);
+  return storedWeeks
+    .sort((a, b) => a.weekId.localeCompare(b.weekId))
+    .map(stored => ({
+      weekId: stored.weekId,
+      oldRating: stored.rating,
+      newRating: buildRatingBreakdown(splitTotals(stored, sources).ratingInput, policy).score,
+      sealed: !!stored.sealedAt,
+    }));
+}
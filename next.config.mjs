@@ -18,9 +18,6 @@ const nextConfig = {
       }
     ],
   },
-  env: {
-    GEMINI_API_KEY: process.env.GEMINI_API_KEY,
-  }
 };
 
 export default nextConfig;
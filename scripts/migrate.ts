@@ -0,0 +1,36 @@
+// Applies pending data migrations.
+//
+//   npm run migrate -- [--dry-run] [userId ...]
+//
+// With no user ids every user with a stored profile is migrated. Storage is
+// picked the same way as in the app (see lib/redis.ts), so load the same
+// environment first, e.g. `node --env-file=.env.local ...` or export it.
+import redis from '@/lib/redis';
+import { listUserIds } from '@/lib/rollover';
+import { CURRENT_SCHEMA_VERSION, migrateUser } from '@/lib/migrations';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const requested = args.filter(arg => !arg.startsWith('--'));
+  const userIds = requested.length > 0 ? requested : await listUserIds();
+
+  console.log(`${dryRun ? 'Dry run: ' : ''}migrating ${userIds.length} user(s) to schema v${CURRENT_SCHEMA_VERSION}`);
+  for (const userId of userIds) {
+    const report = await migrateUser(redis, userId, { dryRun });
+    if (report.applied.length === 0) {
+      console.log(`${userId}: already at v${report.fromVersion}`);
+      continue;
+    }
+    console.log(`${userId}: v${report.fromVersion} -> v${report.toVersion}`);
+    for (const { version, name, changes } of report.applied) {
+      console.log(`  v${version} ${name}: ${changes.length === 0 ? 'no changes' : `${changes.length} change(s)`}`);
+      changes.forEach(change => console.log(`    ${change}`));
+    }
+  }
+}
+
+main().then(() => process.exit(0), error => {
+  console.error(error);
+  process.exit(1);
+});
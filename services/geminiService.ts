@@ -1,107 +1,159 @@
 import { GoogleGenAI } from "@google/genai";
+import { RatingInput, buildRatingBreakdown } from "@/lib/rating";
+import ratingCache from "@/lib/ratingCache";
+import rateLimiter, { RateLimitError } from "@/lib/rateLimit";
+import metrics from "@/lib/metrics";
+import { CoachingFacts } from "@/lib/coaching";
+import { QuickAddDraft } from "@/lib/quickAdd";
+import { CoachingReport, RatingBreakdown, RatingPolicy, TaskCategory } from "@/types";
 
-const ai = new GoogleGenAI({ apiKey: process.env.NEXT_PUBLIC_GEMINI_API_KEY || 'mock-key' });
+export const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || 'mock-key' });
 
-export const calculateWeeklyRating = async (
-  completedHours: number,
-  goalHours: number,
-  screenTimeHours: number
-): Promise<number> => {
+export const GEMINI_MODEL = "gemini-3-flash-preview";
+
+// The score always comes from the user's policy (lib/rating.ts) so it can be
+// explained component by component; Gemini only writes the explanation.
+// Explanations are cached per user by component values, and a throttled user
+// gets the template explanation instead of waiting.
+export const calculateWeeklyRating = async (userId: string, input: RatingInput, policy: RatingPolicy): Promise<RatingBreakdown> => {
+  const breakdown = buildRatingBreakdown(input, policy);
   try {
-    if (!process.env.NEXT_PUBLIC_GEMINI_API_KEY) {
-      // Fallback calculation if no API key
-      let rating = (completedHours / goalHours) * 10;
-      rating -= (screenTimeHours / 10); // Penalty for screen time
-      return Math.max(0, Math.min(10, Number(rating.toFixed(1))));
+    if (!process.env.GEMINI_API_KEY) {
+      return breakdown;
+    }
+
+    const cached = await ratingCache.get(userId, breakdown.components);
+    if (cached) {
+      await metrics.record('rating.cacheHit');
+      return buildRatingBreakdown(input, policy, cached.explanation, cached.explainedBy);
     }
+    await metrics.record('rating.cacheMiss');
+    await rateLimiter.consume(userId, 'rating');
 
     const prompt = `
-      As an AI productivity coach, rate this week's performance on a scale of 0.0 to 10.0.
-      - Goal Hours: ${goalHours}
-      - Completed Hours: ${completedHours}
-      - Screen Time Hours: ${screenTimeHours}
-      
-      Return ONLY the numerical rating (e.g., 8.5).
+      As an AI productivity coach, explain this week's rating of ${breakdown.score}/10 to the user.
+      The rating is the sum of these components:
+      ${breakdown.components.map(c => `- ${c.label}: ${c.points > 0 ? '+' : ''}${c.points} (${c.detail})`).join('\n      ')}
+
+      Write at most two short sentences: what drove the score and the single most useful thing to change next week.
+      Don't restate every number. Return ONLY the explanation text.
     `;
 
     const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
+      model: GEMINI_MODEL,
       contents: prompt,
     });
 
-    const rating = parseFloat(response.text?.trim() || "0");
-    return isNaN(rating) ? 0 : Math.max(0, Math.min(10, rating));
+    const explanation = response.text?.trim();
+    if (!explanation) return breakdown;
+    await ratingCache.put(userId, breakdown.components, explanation, GEMINI_MODEL);
+    return buildRatingBreakdown(input, policy, explanation, GEMINI_MODEL);
   } catch (error) {
-    console.error("Error calculating rating:", error);
-    // Fallback calculation
-    let rating = (completedHours / goalHours) * 10;
-    rating -= (screenTimeHours / 10);
-    return Math.max(0, Math.min(10, Number(rating.toFixed(1))));
+    if (error instanceof RateLimitError) return breakdown;
+    console.error("Error explaining rating:", error);
+    return breakdown;
   }
 };
 
-export const verifyTaskImage = async (
-  taskTitle: string,
-  taskDescription: string,
-  base64Image: string,
-  mimeType: string
-): Promise<{ verified: boolean; reason: string }> => {
+const MAX_SUGGESTIONS = 5;
+
+// The model writes the retrospective and suggestions from the week's facts.
+// The recommended goal, weakest day, slipped categories and limit overrides
+// stay those of the template so they match the numbers shown elsewhere.
+export const writeCoachingReport = async (facts: CoachingFacts, template: CoachingReport): Promise<CoachingReport> => {
   try {
-    if (!process.env.NEXT_PUBLIC_GEMINI_API_KEY || process.env.NEXT_PUBLIC_GEMINI_API_KEY === 'mock-key') {
-      return { 
-        verified: false, 
-        reason: "AI Verification is disabled. Please set NEXT_PUBLIC_GEMINI_API_KEY in your environment variables to enable real verification." 
-      };
+    if (!process.env.GEMINI_API_KEY) {
+      return template;
     }
 
     const prompt = `
-      You are a strict AI productivity verifier. The user claims they completed the following task:
-      Title: "${taskTitle}"
-      Description: "${taskDescription}"
-      
-      They have provided an image as proof. 
-      Your job is to CRITICALLY analyze the image to determine if it provides CLEAR evidence that the task was actually worked on or completed.
-      
-      Guidelines:
-      1. If the image is generic, unrelated, or doesn't show progress toward the specific task, REJECT it.
-      2. If the image is a black screen, a random selfie, or a meme, REJECT it.
-      3. If the image shows a workspace, code, a book, or a document that matches the task description, ACCEPT it.
-      4. Be skeptical. If you are unsure, REJECT it.
-      
-      Respond ONLY in JSON format with these fields:
-      {
-        "verified": boolean,
-        "reason": "A concise explanation of your decision. If rejected, be specific about why the proof was insufficient."
-      }
+      As an AI productivity coach, write a short retrospective of this user's week and concrete suggestions for next week.
+      Week facts (hours are verified hours; days run Monday to Sunday):
+      ${JSON.stringify(facts)}
+
+      Our analysis, which your suggestions must agree with:
+      - Recommended goal for next week: ${template.recommendedGoalHours}h (current goal ${facts.goalHours}h)
+      - Weakest day: ${template.weakestDay}
+      - Categories that slipped: ${facts.categories.filter(c => template.slippedCategories.includes(c.id)).map(c => c.name).join(', ') || 'none'}
+      - Tasks added past the daily limit: ${facts.limitOverrides.length}
+
+      Return JSON: { "retrospective": "2-3 sentences", "suggestions": ["up to ${MAX_SUGGESTIONS} specific, actionable items"] }.
+      Refer to the user's actual tasks, rejection reasons and days. Don't invent numbers.
     `;
 
     const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: base64Image,
-              mimeType: mimeType,
-            },
-          },
-          { text: prompt },
-        ],
+      model: GEMINI_MODEL,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
       },
+    });
+
+    const result = JSON.parse(response.text || "{}");
+    const retrospective = typeof result.retrospective === 'string' ? result.retrospective.trim() : '';
+    const suggestions = Array.isArray(result.suggestions)
+      ? result.suggestions.filter((s: unknown): s is string => typeof s === 'string' && s.trim().length > 0).slice(0, MAX_SUGGESTIONS)
+      : [];
+    if (!retrospective || suggestions.length === 0) return template;
+
+    return { ...template, retrospective, suggestions, generatedBy: GEMINI_MODEL };
+  } catch (error) {
+    console.error("Error writing coaching report:", error);
+    return template;
+  }
+};
+
+// Fills in only what the grammar parse couldn't find; the fields it did parse
+// are kept as they are.
+export const assistQuickAdd = async (
+  userId: string,
+  text: string,
+  today: string,
+  draft: QuickAddDraft,
+  categories: TaskCategory[]
+): Promise<QuickAddDraft> => {
+  if (!process.env.GEMINI_API_KEY || draft.missing.length === 0) {
+    return draft;
+  }
+  try {
+    await rateLimiter.consume(userId, 'quickAdd');
+
+    const prompt = `
+      Turn this to-do note into a task. Today is ${today} (YYYY-MM-DD).
+      Note: ${JSON.stringify(text)}
+
+      Return JSON with only these fields, leaving out any you can't infer:
+      { "title": "short task title", ${draft.missing.map(field => ({
+        categoryId: `"categoryId": one of ${categories.map(c => `"${c.id}" (${c.name})`).join(', ')}`,
+        durationHours: '"durationHours": number of hours (0 < n <= 24)',
+        plannedFor: '"plannedFor": "YYYY-MM-DD"',
+      })[field]).join(', ')} }
+    `;
+
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: prompt,
       config: {
         responseMimeType: "application/json",
       },
     });
 
-    const text = response.text || "{}";
-    const result = JSON.parse(text);
-    
-    return {
-      verified: typeof result.verified === 'boolean' ? result.verified : false,
-      reason: result.reason || "Unable to determine verification status.",
+    const result = JSON.parse(response.text || "{}");
+    const next: QuickAddDraft = { ...draft, missing: [...draft.missing] };
+    const fill = (field: QuickAddDraft['missing'][number], valid: boolean, apply: () => void) => {
+      if (!draft.missing.includes(field) || !valid) return;
+      apply();
+      next.missing = next.missing.filter(f => f !== field);
     };
+    fill('categoryId', categories.some(c => c.id === result.categoryId), () => { next.categoryId = result.categoryId; });
+    fill('durationHours', typeof result.durationHours === 'number' && result.durationHours > 0 && result.durationHours <= 24,
+      () => { next.durationHours = Math.round(result.durationHours * 100) / 100; });
+    fill('plannedFor', typeof result.plannedFor === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(result.plannedFor) && result.plannedFor >= today,
+      () => { next.plannedFor = result.plannedFor; });
+    if (!draft.title && typeof result.title === 'string' && result.title.trim()) next.title = result.title.trim();
+    return next;
   } catch (error) {
-    console.error("Error verifying task image:", error);
-    return { verified: false, reason: "Error contacting verification service. Please check your API key and connection." };
+    if (!(error instanceof RateLimitError)) console.error("Error parsing quick-add text:", error);
+    return draft;
   }
 };
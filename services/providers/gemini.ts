@@ -0,0 +1,33 @@
+import { ai, GEMINI_MODEL } from '@/services/geminiService';
+import {
+  EvidenceInput,
+  VerificationProvider,
+  buildAppealPrompt,
+  buildVerificationPrompt,
+  parseVerdict,
+} from '@/services/verificationProvider';
+
+export const hasGeminiConfig = () =>
+  !!process.env.GEMINI_API_KEY && process.env.GEMINI_API_KEY !== 'mock-key';
+
+const judge = async (prompt: string, items: EvidenceInput[]) => {
+  const response = await ai.models.generateContent({
+    model: GEMINI_MODEL,
+    contents: {
+      parts: [
+        ...items.map(item => ({ inlineData: { data: item.data, mimeType: item.mimeType } })),
+        { text: prompt },
+      ],
+    },
+    config: {
+      responseMimeType: "application/json",
+    },
+  });
+  return parseVerdict(response.text, items.length, GEMINI_MODEL);
+};
+
+export const createGeminiProvider = (): VerificationProvider => ({
+  name: 'gemini',
+  verify: (task, items) => judge(buildVerificationPrompt(task, items.length), items),
+  reviewAppeal: (task, appeal, items) => judge(buildAppealPrompt(task, appeal), items),
+});
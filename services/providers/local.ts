@@ -0,0 +1,161 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { EvidenceInput, EvidenceVerdict, TaskClaim, VerificationProvider } from '@/services/verificationProvider';
+import { formatBytes, getProofKind } from '@/lib/proof';
+
+const LOCAL_MODEL = 'local-rules-v1';
+
+const MIN_IMAGE_SIDE = 200;
+const MIN_BYTES_PER_PIXEL = 0.01; // Below this an image compressed to almost nothing, i.e. it's blank
+const MIN_ENTROPY = 4; // Bits per byte
+const MIN_PDF_BYTES = 1024;
+const MIN_VIDEO_BYTES = 50 * 1024;
+const MIN_JUSTIFICATION_LENGTH = 20;
+
+interface ItemCheck {
+  passed: boolean;
+  note: string;
+}
+
+// Reads width and height from PNG, GIF, JPEG and WebP headers.
+export const readImageSize = (bytes: Buffer): { width: number; height: number } | null => {
+  if (bytes.length >= 24 && bytes.readUInt32BE(0) === 0x89504e47) {
+    return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+  }
+  if (bytes.length >= 10 && bytes.toString('ascii', 0, 4) === 'GIF8') {
+    return { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) };
+  }
+  if (bytes.length >= 30 && bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WEBP') {
+    const chunk = bytes.toString('ascii', 12, 16);
+    if (chunk === 'VP8 ') return { width: bytes.readUInt16LE(26) & 0x3fff, height: bytes.readUInt16LE(28) & 0x3fff };
+    if (chunk === 'VP8L') {
+      return {
+        width: 1 + (((bytes[22] & 0x3f) << 8) | bytes[21]),
+        height: 1 + (((bytes[24] & 0x0f) << 10) | (bytes[23] << 2) | ((bytes[22] & 0xc0) >> 6)),
+      };
+    }
+    if (chunk === 'VP8X') return { width: 1 + bytes.readUIntLE(24, 3), height: 1 + bytes.readUIntLE(27, 3) };
+    return null;
+  }
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      if (marker === 0xff) {
+        offset++;
+        continue;
+      }
+      // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: bytes.readUInt16BE(offset + 7), height: bytes.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + bytes.readUInt16BE(offset + 2);
+    }
+  }
+  return null;
+};
+
+// Shannon entropy of the byte histogram, 0-8 bits per byte
+export const byteEntropy = (bytes: Buffer) => {
+  if (bytes.length === 0) return 0;
+  const counts = new Array(256).fill(0);
+  for (const byte of bytes) counts[byte]++;
+  return counts.reduce((entropy, count) => {
+    if (count === 0) return entropy;
+    const p = count / bytes.length;
+    return entropy - p * Math.log2(p);
+  }, 0);
+};
+
+const checkItem = ({ data, mimeType }: EvidenceInput): ItemCheck => {
+  const bytes = Buffer.from(data, 'base64');
+  switch (getProofKind(mimeType)) {
+    case 'image': {
+      const size = readImageSize(bytes);
+      if (!size) return { passed: false, note: "Couldn't read this image." };
+      const { width, height } = size;
+      if (Math.min(width, height) < MIN_IMAGE_SIDE) {
+        return { passed: false, note: `Image is too small (${width}x${height}) to show any work.` };
+      }
+      if (bytes.length / (width * height) < MIN_BYTES_PER_PIXEL || byteEntropy(bytes) < MIN_ENTROPY) {
+        return { passed: false, note: `Image (${width}x${height}) looks blank or nearly uniform.` };
+      }
+      return { passed: true, note: `${width}x${height} image with enough detail to count.` };
+    }
+    case 'pdf':
+      if (bytes.toString('ascii', 0, 5) !== '%PDF-') return { passed: false, note: "File isn't a valid PDF." };
+      if (bytes.length < MIN_PDF_BYTES) return { passed: false, note: 'PDF is nearly empty.' };
+      return { passed: true, note: `PDF document (${formatBytes(bytes.length)}).` };
+    case 'video':
+      if (bytes.length < MIN_VIDEO_BYTES) return { passed: false, note: 'Recording is too short to show any work.' };
+      return { passed: true, note: `Screen recording (${formatBytes(bytes.length)}); contents not inspected.` };
+    default:
+      return { passed: false, note: `${mimeType} isn't a supported proof type.` };
+  }
+};
+
+// The rules can't tell how much work the items show, so a claim flagged as
+// well above the focus timer is rejected until it is brought down
+const checkClaimedHours = ({ durationCheck }: TaskClaim): string | null =>
+  durationCheck?.flagged
+    ? `Claimed ${durationCheck.claimedHours}h, but the focus timer recorded only ${durationCheck.trackedHours}h on this task.`
+    : null;
+
+// LOCAL_VERIFIER_FIXTURES names a JSON file mapping an item's SHA-256 to a
+// fixed verdict, e.g. { "<sha256>": { "verified": true, "reason": "..." } },
+// so specific files always get a known outcome in development and tests.
+const loadFixtures = (path: string | undefined): Record<string, { verified: boolean; reason: string }> => {
+  if (!path) return {};
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    console.error(`Failed to read verifier fixtures from ${path}`, error);
+    return {};
+  }
+};
+
+const fromFixtures = (items: EvidenceInput[], fixturesPath: string | undefined): EvidenceVerdict | null => {
+  const fixtures = loadFixtures(fixturesPath);
+  const hashes = items.map(item => createHash('sha256').update(Buffer.from(item.data, 'base64')).digest('hex'));
+  const match = hashes.findIndex(hash => fixtures[hash]);
+  if (match === -1) return null;
+  const fixture = fixtures[hashes[match]];
+  return {
+    verified: !!fixture.verified,
+    reason: fixture.reason || 'Matched a verifier fixture.',
+    model: LOCAL_MODEL,
+    notes: hashes.map((_, index) => index === match ? 'Matched a verifier fixture.' : ''),
+  };
+};
+
+// Offline verifier built from simple, deterministic checks: readable images
+// of a reasonable size that aren't blank, real PDFs and non-trivial
+// recordings. The set passes when at least one item does and the claimed
+// hours aren't flagged. Meant for development, not as a substitute for a model.
+export const createLocalProvider = (fixturesPath = process.env.LOCAL_VERIFIER_FIXTURES): VerificationProvider => {
+  const judge = (task: TaskClaim, items: EvidenceInput[], extraCheck?: () => string | null): EvidenceVerdict => {
+    const fixture = fromFixtures(items, fixturesPath);
+    if (fixture) return fixture;
+
+    const checks = items.map(checkItem);
+    const passed = checks.filter(check => check.passed).length;
+    const notes = checks.map(check => check.note);
+    if (passed === 0) {
+      return { verified: false, reason: 'None of the submitted items look like evidence of work.', model: LOCAL_MODEL, notes };
+    }
+    const problem = checkClaimedHours(task) ?? extraCheck?.();
+    if (problem) return { verified: false, reason: problem, model: LOCAL_MODEL, notes };
+    return { verified: true, reason: `${passed} of ${items.length} item(s) look like evidence of work.`, model: LOCAL_MODEL, notes };
+  };
+
+  return {
+    name: 'local',
+    verify: async (task, items) => judge(task, items),
+    reviewAppeal: async (task, appeal, items) => judge(task, items, () =>
+      appeal.justification.trim().length < MIN_JUSTIFICATION_LENGTH
+        ? `The rejection stands: the explanation needs at least ${MIN_JUSTIFICATION_LENGTH} characters.`
+        : null
+    ),
+  };
+};
@@ -0,0 +1,59 @@
+import {
+  EvidenceInput,
+  VerificationProvider,
+  buildAppealPrompt,
+  buildVerificationPrompt,
+  parseVerdict,
+} from '@/services/verificationProvider';
+import { getProofKind } from '@/lib/proof';
+
+export const hasOpenAIConfig = () => !!process.env.OPENAI_API_KEY || !!process.env.OPENAI_BASE_URL;
+
+// Chat-completions content parts. Images go as data URLs and PDFs as files;
+// video isn't part of the API, so the model is told the item was skipped.
+const toContentPart = (item: EvidenceInput, index: number) => {
+  const dataUrl = `data:${item.mimeType};base64,${item.data}`;
+  switch (getProofKind(item.mimeType)) {
+    case 'image':
+      return { type: 'image_url', image_url: { url: dataUrl } };
+    case 'pdf':
+      return { type: 'file', file: { filename: `item-${index + 1}.pdf`, file_data: dataUrl } };
+    default:
+      return { type: 'text', text: `[Item ${index + 1} is a ${item.mimeType} file this reviewer cannot open; treat it as missing.]` };
+  }
+};
+
+// Works with any server that speaks the OpenAI chat-completions API (OpenAI,
+// Azure-style gateways, Ollama, vLLM, LM Studio...). OPENAI_BASE_URL points at
+// the /v1 root and OPENAI_MODEL names a vision-capable model.
+export const createOpenAIProvider = (
+  baseUrl = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+  apiKey = process.env.OPENAI_API_KEY || '',
+  model = process.env.OPENAI_MODEL || 'gpt-4o-mini'
+): VerificationProvider => {
+  const judge = async (prompt: string, items: EvidenceInput[]) => {
+    const res = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        response_format: { type: 'json_object' },
+        messages: [{ role: 'user', content: [...items.map(toContentPart), { type: 'text', text: prompt }] }],
+      }),
+    });
+    if (!res.ok) {
+      throw new Error(`Verification endpoint returned ${res.status}: ${await res.text()}`);
+    }
+    const body = await res.json();
+    return parseVerdict(body?.choices?.[0]?.message?.content, items.length, model);
+  };
+
+  return {
+    name: 'openai',
+    verify: (task, items) => judge(buildVerificationPrompt(task, items.length), items),
+    reviewAppeal: (task, appeal, items) => judge(buildAppealPrompt(task, appeal), items),
+  };
+};
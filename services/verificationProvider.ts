@@ -0,0 +1,114 @@
+// The contract every verification backend implements (see services/providers/),
+// plus the prompts and response parsing shared by the LLM-based ones.
+
+import { DurationCheck } from '@/types';
+
+export interface TaskClaim {
+  title: string;
+  description: string;
+  durationCheck?: DurationCheck; // Set when the task was timed with the focus timer
+}
+
+export interface EvidenceInput {
+  data: string; // Base64
+  mimeType: string;
+}
+
+export interface AppealInput {
+  originalReason: string;
+  justification: string;
+}
+
+export interface EvidenceVerdict {
+  verified: boolean;
+  reason: string;
+  model: string;
+  notes: string[]; // One per submitted item, same order
+}
+
+// Providers judge the items as a set and may throw on transport errors;
+// services/verifier.ts turns failures into a rejection.
+export interface VerificationProvider {
+  name: string;
+  verify(task: TaskClaim, items: EvidenceInput[]): Promise<EvidenceVerdict>;
+  reviewAppeal(task: TaskClaim, appeal: AppealInput, items: EvidenceInput[]): Promise<EvidenceVerdict>;
+}
+
+// Tells the model how the claimed hours compare to the focus timer
+const describeDuration = (check: DurationCheck | undefined) => {
+  if (!check) return '';
+  return `
+      Claimed duration: ${check.claimedHours}h. The app's focus timer recorded ${check.trackedHours}h on this task.${check.flagged
+        ? `
+      The claim is much larger than the recorded time. Say so in your reason, and only verify if the items themselves show roughly the claimed amount of work.`
+        : ''}
+      `;
+};
+
+export const buildVerificationPrompt = (task: TaskClaim, itemCount: number) => `
+      You are a strict AI productivity verifier. The user claims they completed the following task:
+      Title: "${task.title}"
+      Description: "${task.description}"
+      ${describeDuration(task.durationCheck)}
+      They have provided ${itemCount} item(s) as proof, attached in order (item 1 first). Items may be images, PDFs or short screen recordings.
+      Your job is to CRITICALLY analyze the items together to determine if they provide CLEAR evidence that the task was actually worked on or completed.
+      
+      Guidelines:
+      1. If an item is generic, unrelated, or doesn't show progress toward the specific task, it does not count.
+      2. If an item is a black screen, a random selfie, or a meme, it does not count.
+      3. Workspaces, code, books, notes or documents that match the task description count.
+      4. Judge the set as a whole. For long tasks, several items may together show the work even if none does alone.
+      5. Be skeptical. If you are unsure, REJECT.
+      
+      Respond ONLY in JSON format with these fields:
+      {
+        "verified": boolean,
+        "reason": "A concise explanation of your overall decision. If rejected, be specific about why the proof was insufficient.",
+        "items": [{ "item": 1, "note": "One short sentence on what this item shows and whether it supports the claim." }]
+      }
+    `;
+
+// Unlike the first pass, the appeal prompt starts from the earlier verdict and
+// weighs the user's explanation, but still needs the evidence to back it up.
+export const buildAppealPrompt = (task: TaskClaim, appeal: AppealInput) => `
+      You are an impartial appeals reviewer for a productivity app. A first AI reviewer REJECTED the user's proof for this task:
+      Title: "${task.title}"
+      Description: "${task.description}"
+      ${describeDuration(task.durationCheck)}
+      The first reviewer's reason for rejecting it:
+      "${appeal.originalReason}"
+
+      The user disputes that decision and explains:
+      "${appeal.justification}"
+
+      The attached items (images, PDFs or short recordings) are the original proof followed by anything added for the appeal.
+
+      Guidelines:
+      1. Re-examine the evidence yourself instead of deferring to the first reviewer.
+      2. Overturn the rejection if the first reviewer misread the evidence, or if the user's explanation together with the evidence makes it clear the task was worked on.
+      3. An explanation alone is not proof. If the evidence still doesn't show the task, uphold the rejection.
+      4. Judge the evidence fairly. Don't reject on a technicality once the work is plainly shown.
+
+      Respond ONLY in JSON format with these fields:
+      {
+        "verified": boolean,
+        "reason": "A concise explanation addressed to the user, saying whether the appeal succeeded and why.",
+        "items": [{ "item": 1, "note": "One short sentence on what this item shows." }]
+      }
+    `;
+
+// Reads the JSON both prompts ask for. Anything malformed counts as a rejection.
+export const parseVerdict = (text: string | undefined, itemCount: number, model: string): EvidenceVerdict => {
+  const result = JSON.parse(text || "{}");
+  const notes = Array.from({ length: itemCount }, (_, index) => {
+    const entry = Array.isArray(result.items) ? result.items.find((n: { item?: number }) => n?.item === index + 1) : null;
+    return typeof entry?.note === 'string' ? entry.note : '';
+  });
+
+  return {
+    verified: typeof result.verified === 'boolean' ? result.verified : false,
+    reason: result.reason || "Unable to determine verification status.",
+    model,
+    notes,
+  };
+};
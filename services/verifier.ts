@@ -0,0 +1,83 @@
+import { VerificationProvider, EvidenceInput, EvidenceVerdict } from '@/services/verificationProvider';
+import { createGeminiProvider, hasGeminiConfig } from '@/services/providers/gemini';
+import { createOpenAIProvider, hasOpenAIConfig } from '@/services/providers/openai';
+import { createLocalProvider } from '@/services/providers/local';
+import { DurationCheck } from '@/types';
+
+const DISABLED_REASON =
+  "AI Verification is disabled. Set GEMINI_API_KEY, OPENAI_API_KEY or VERIFICATION_PROVIDER to enable verification.";
+
+// Rejects everything; used in production when nothing is configured, so a
+// missing key never silently falls back to the permissive local rules.
+const disabledProvider: VerificationProvider = {
+  name: 'disabled',
+  verify: async () => ({ verified: false, reason: DISABLED_REASON, model: 'none', notes: [] }),
+  reviewAppeal: async () => ({ verified: false, reason: DISABLED_REASON, model: 'none', notes: [] }),
+};
+
+// VERIFICATION_PROVIDER picks the verifier explicitly: "gemini", "openai" (any
+// OpenAI-compatible endpoint, see OPENAI_BASE_URL) or "local" (offline rules).
+// Without it, Gemini is used when GEMINI_API_KEY is set, then OpenAI, and
+// finally the local rules outside production.
+const resolveProvider = () => {
+  const explicit = process.env.VERIFICATION_PROVIDER;
+  if (explicit) return explicit;
+  if (hasGeminiConfig()) return 'gemini';
+  if (hasOpenAIConfig()) return 'openai';
+  return process.env.NODE_ENV === 'production' ? 'disabled' : 'local';
+};
+
+const createProvider = (): VerificationProvider => {
+  const provider = resolveProvider();
+  switch (provider) {
+    case 'gemini':
+      return createGeminiProvider();
+    case 'openai':
+      return createOpenAIProvider();
+    case 'local':
+      return createLocalProvider();
+    case 'disabled':
+      return disabledProvider;
+    default:
+      // Rejecting everything is safer than failing every route that imports this
+      console.error(`Unknown VERIFICATION_PROVIDER "${provider}"; verification is disabled`);
+      return disabledProvider;
+  }
+};
+
+const verifier = createProvider();
+
+const failed = (error: unknown): EvidenceVerdict => {
+  console.error(`Error from ${verifier.name} verification provider:`, error);
+  return { verified: false, reason: "Error contacting verification service. Please check your API key and connection.", model: verifier.name, notes: [] };
+};
+
+export const verifyTaskEvidence = async (
+  taskTitle: string,
+  taskDescription: string,
+  items: EvidenceInput[],
+  durationCheck?: DurationCheck | null
+): Promise<EvidenceVerdict> => {
+  try {
+    return await verifier.verify({ title: taskTitle, description: taskDescription, durationCheck: durationCheck || undefined }, items);
+  } catch (error) {
+    return failed(error);
+  }
+};
+
+export const reviewAppeal = async (
+  taskTitle: string,
+  taskDescription: string,
+  originalReason: string,
+  justification: string,
+  items: EvidenceInput[],
+  durationCheck?: DurationCheck | null
+): Promise<EvidenceVerdict> => {
+  try {
+    return await verifier.reviewAppeal({ title: taskTitle, description: taskDescription, durationCheck: durationCheck || undefined }, { originalReason, justification }, items);
+  } catch (error) {
+    return failed(error);
+  }
+};
+
+export default verifier;
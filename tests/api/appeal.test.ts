@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import repos from '@/lib/repositories';
+import { reviewAppeal } from '@/services/verifier';
+import { POST } from '@/app/api/users/[userId]/tasks/[taskId]/appeal/route';
+import { Task, VerificationStatus } from '@/types';
+import { jsonRequest, profileFor, signInAs } from '../helpers';
+
+vi.mock('@/services/verifier', () => ({ reviewAppeal: vi.fn() }));
+
+const HASH = 'd'.repeat(64);
+
+const rejected: Task = {
+  id: 'essay',
+  title: 'Write essay',
+  description: '',
+  categoryId: 'study',
+  durationHours: 1,
+  createdAt: Date.now(),
+  status: VerificationStatus.REJECTED,
+  rejectionReason: 'Blank page',
+};
+
+const appeal = () => POST(jsonRequest('POST', { justification: 'It was saved on page two' }), { params: { userId: 'alice', taskId: 'essay' } });
+
+describe('POST /tasks/:taskId/appeal', () => {
+  beforeEach(async () => {
+    signInAs('alice');
+    await repos.profiles.save('alice', profileFor('alice'));
+    await repos.tasks.save('alice', rejected);
+    await repos.evidence.save('alice', { hash: HASH, mimeType: 'image/png', data: 'aGk=', size: 2, createdAt: Date.now() });
+    await repos.verifications.add('alice', {
+      id: crypto.randomUUID(), taskId: 'essay', attemptedAt: Date.now(), model: 'test',
+      verdict: VerificationStatus.REJECTED, reason: 'Blank page', evidenceHash: HASH,
+    });
+  });
+
+  it('puts the task back when the review fails', async () => {
+    vi.mocked(reviewAppeal).mockRejectedValueOnce(new Error('model unavailable'));
+    const response = await appeal();
+
+    expect(response.status).toBe(500);
+    const task = await repos.tasks.get('alice', 'essay');
+    expect(task?.status).toBe(VerificationStatus.REJECTED);
+    expect(task?.appeal).toBeUndefined();
+  });
+
+  it('stores the verdict when the review succeeds', async () => {
+    vi.mocked(reviewAppeal).mockResolvedValueOnce({ verified: true, reason: 'Page two has the essay', model: 'test', notes: [''] });
+    const response = await appeal();
+
+    expect(response.status).toBe(200);
+    const task = await repos.tasks.get('alice', 'essay');
+    expect(task?.status).toBe(VerificationStatus.VERIFIED);
+    expect(task?.appeal?.outcome).toBe(VerificationStatus.VERIFIED);
+  });
+});
@@ -0,0 +1,157 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import repos from '@/lib/repositories';
+import { VerificationStatus } from '@/types';
+import { jsonRequest, profileFor, signInAs } from '../helpers';
+
+import * as userRoute from '@/app/api/users/[userId]/route';
+import * as categories from '@/app/api/users/[userId]/categories/route';
+import * as dailyLimit from '@/app/api/users/[userId]/daily-limit/route';
+import * as data from '@/app/api/users/[userId]/data/route';
+import * as evidence from '@/app/api/users/[userId]/evidence/[hash]/route';
+import * as exportRoute from '@/app/api/users/[userId]/export/route';
+import * as importRoute from '@/app/api/users/[userId]/import/route';
+import * as profile from '@/app/api/users/[userId]/profile/route';
+import * as project from '@/app/api/users/[userId]/projects/[projectId]/route';
+import * as projects from '@/app/api/users/[userId]/projects/route';
+import * as ratingPreview from '@/app/api/users/[userId]/rating-policy/preview/route';
+import * as ratingPolicy from '@/app/api/users/[userId]/rating-policy/route';
+import * as report from '@/app/api/users/[userId]/reports/[weekId]/route';
+import * as reports from '@/app/api/users/[userId]/reports/route';
+import * as screentime from '@/app/api/users/[userId]/screentime/route';
+import * as recompute from '@/app/api/users/[userId]/stats/recompute/route';
+import * as stats from '@/app/api/users/[userId]/stats/route';
+import * as appeal from '@/app/api/users/[userId]/tasks/[taskId]/appeal/route';
+import * as focus from '@/app/api/users/[userId]/tasks/[taskId]/focus/route';
+import * as task from '@/app/api/users/[userId]/tasks/[taskId]/route';
+import * as verifications from '@/app/api/users/[userId]/tasks/[taskId]/verifications/route';
+import * as verify from '@/app/api/users/[userId]/tasks/[taskId]/verify/route';
+import * as parse from '@/app/api/users/[userId]/tasks/parse/route';
+import * as tasks from '@/app/api/users/[userId]/tasks/route';
+import * as template from '@/app/api/users/[userId]/templates/[templateId]/route';
+import * as templates from '@/app/api/users/[userId]/templates/route';
+import * as weeklyStats from '@/app/api/users/[userId]/weekly-stats/route';
+import * as cronRecurring from '@/app/api/cron/recurring/route';
+import * as cronRollover from '@/app/api/cron/rollover/route';
+import * as metrics from '@/app/api/metrics/route';
+
+// Every path param a per-user route declares; each handler reads the ones it needs
+type RouteParams = Record<'userId' | 'hash' | 'projectId' | 'weekId' | 'taskId' | 'templateId', string>;
+type Handler = (request: Request, context: { params: RouteParams }) => Promise<Response>;
+
+const PARAMS: Omit<RouteParams, 'userId'> = {
+  hash: 'a'.repeat(64),
+  projectId: 'p1',
+  weekId: '2026-W01',
+  taskId: 't1',
+  templateId: 'tpl1',
+};
+
+// Every per-user handler, with a body that is well-formed enough to get past
+// parsing
+const ROUTES: { name: string; handler: Handler; method: string; body?: unknown }[] = [
+  { name: 'GET /categories', handler: categories.GET, method: 'GET' },
+  { name: 'POST /categories', handler: categories.POST, method: 'POST', body: { categories: [] } },
+  { name: 'GET /daily-limit', handler: dailyLimit.GET, method: 'GET' },
+  { name: 'POST /daily-limit', handler: dailyLimit.POST, method: 'POST', body: { policy: { enforcement: 'WARN' } } },
+  { name: 'GET /data', handler: data.GET, method: 'GET' },
+  { name: 'GET /evidence/:hash', handler: evidence.GET, method: 'GET' },
+  { name: 'GET /export', handler: exportRoute.GET, method: 'GET' },
+  { name: 'POST /import', handler: importRoute.POST, method: 'POST', body: {} },
+  { name: 'GET /profile', handler: profile.GET, method: 'GET' },
+  { name: 'POST /profile', handler: profile.POST, method: 'POST', body: profileFor('x') },
+  { name: 'DELETE /projects/:projectId', handler: project.DELETE, method: 'DELETE' },
+  { name: 'GET /projects', handler: projects.GET, method: 'GET' },
+  { name: 'POST /projects', handler: projects.POST, method: 'POST', body: {} },
+  { name: 'POST /rating-policy/preview', handler: ratingPreview.POST, method: 'POST', body: {} },
+  { name: 'GET /rating-policy', handler: ratingPolicy.GET, method: 'GET' },
+  { name: 'POST /rating-policy', handler: ratingPolicy.POST, method: 'POST', body: {} },
+  { name: 'GET /reports/:weekId', handler: report.GET, method: 'GET' },
+  { name: 'POST /reports/:weekId', handler: report.POST, method: 'POST', body: {} },
+  { name: 'GET /reports', handler: reports.GET, method: 'GET' },
+  { name: 'GET /screentime', handler: screentime.GET, method: 'GET' },
+  { name: 'POST /screentime', handler: screentime.POST, method: 'POST', body: {} },
+  { name: 'POST /stats/recompute', handler: recompute.POST, method: 'POST', body: {} },
+  { name: 'GET /stats', handler: stats.GET, method: 'GET' },
+  { name: 'POST /stats', handler: stats.POST, method: 'POST', body: {} },
+  { name: 'DELETE /stats', handler: stats.DELETE, method: 'DELETE' },
+  { name: 'POST /tasks/:taskId/appeal', handler: appeal.POST, method: 'POST', body: {} },
+  { name: 'POST /tasks/:taskId/focus', handler: focus.POST, method: 'POST', body: { action: 'stop' } },
+  { name: 'DELETE /tasks/:taskId', handler: task.DELETE, method: 'DELETE' },
+  { name: 'GET /tasks/:taskId/verifications', handler: verifications.GET, method: 'GET' },
+  { name: 'POST /tasks/:taskId/verify', handler: verify.POST, method: 'POST', body: {} },
+  { name: 'POST /tasks/parse', handler: parse.POST, method: 'POST', body: { text: '' } },
+  { name: 'GET /tasks', handler: tasks.GET, method: 'GET' },
+  { name: 'POST /tasks', handler: tasks.POST, method: 'POST', body: {} },
+  { name: 'DELETE /templates/:templateId', handler: template.DELETE, method: 'DELETE' },
+  { name: 'GET /templates', handler: templates.GET, method: 'GET' },
+  { name: 'POST /templates', handler: templates.POST, method: 'POST', body: {} },
+  { name: 'GET /weekly-stats', handler: weeklyStats.GET, method: 'GET' },
+  // Last: deleting the account locks the owner out of everything above
+  { name: 'DELETE /users/:userId', handler: userRoute.DELETE, method: 'DELETE' },
+];
+
+const call = ({ handler, method, body }: (typeof ROUTES)[number], userId: string) =>
+  handler(jsonRequest(method, body), { params: { ...PARAMS, userId } });
+
+beforeAll(async () => {
+  await repos.profiles.save('alice', profileFor('alice'));
+  await repos.profiles.save('bob', profileFor('bob'));
+  await repos.tasks.save('bob', {
+    id: 't1',
+    title: "Bob's task",
+    description: '',
+    categoryId: 'study',
+    durationHours: 1,
+    createdAt: Date.now(),
+    status: VerificationStatus.PENDING,
+  });
+});
+
+describe.each(ROUTES)('$name', route => {
+  it('returns 401 without a session', async () => {
+    signInAs(null);
+    expect((await call(route, 'bob')).status).toBe(401);
+  });
+
+  it("returns 403 for another user's data", async () => {
+    signInAs('alice');
+    expect((await call(route, 'bob')).status).toBe(403);
+  });
+
+  it('lets the owner through', async () => {
+    signInAs('alice');
+    const response = await call(route, 'alice');
+    expect([401, 403]).not.toContain(response.status);
+    expect(response.status).toBeLessThan(500);
+  });
+});
+
+describe('cross-user writes', () => {
+  it("leave the other user's data untouched", async () => {
+    signInAs('alice');
+    await task.DELETE(jsonRequest('DELETE'), { params: { userId: 'bob', taskId: 't1' } });
+    await tasks.POST(jsonRequest('POST', { id: 't1', title: 'Hijacked', description: '', categoryId: 'study', durationHours: 24, createdAt: 1 }), { params: { userId: 'bob' } });
+    expect((await repos.tasks.get('bob', 't1'))?.title).toBe("Bob's task");
+  });
+});
+
+describe.each([
+  { name: 'GET /cron/recurring', handler: cronRecurring.GET },
+  { name: 'GET /cron/rollover', handler: cronRollover.GET },
+  { name: 'GET /metrics', handler: metrics.GET },
+])('$name', ({ handler }) => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('returns 401 without the cron secret', async () => {
+    vi.stubEnv('CRON_SECRET', 'secret');
+    expect((await handler(jsonRequest('GET', undefined, { Authorization: 'Bearer wrong' }))).status).toBe(401);
+    expect((await handler(jsonRequest('GET'))).status).toBe(401);
+  });
+
+  it('accepts the cron secret', async () => {
+    vi.stubEnv('CRON_SECRET', 'secret');
+    expect((await handler(jsonRequest('GET', undefined, { Authorization: 'Bearer secret' }))).status).toBe(200);
+  });
+});
@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import repos from '@/lib/repositories';
+import { ValidationError } from '@/lib/validation';
+import { GET } from '@/app/api/users/[userId]/evidence/[hash]/route';
+import { jsonRequest, profileFor, signInAs } from '../helpers';
+
+const HASH = 'c'.repeat(64);
+
+const proof = (mimeType: string) => ({ hash: HASH, mimeType, data: 'aGk=', size: 2, createdAt: Date.now() });
+
+describe('GET /evidence/:hash', () => {
+  beforeEach(async () => {
+    signInAs('alice');
+    await repos.profiles.save('alice', profileFor('alice'));
+  });
+
+  it('serves proof inline under its own type, without sniffing', async () => {
+    await repos.evidence.save('alice', proof('image/png'));
+    const response = await GET(jsonRequest('GET'), { params: { userId: 'alice', hash: HASH } });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('image/png');
+    expect(response.headers.get('X-Content-Type-Options')).toBe('nosniff');
+    expect(response.headers.get('Content-Disposition')).toBe(`inline; filename="${HASH}.png"`);
+  });
+
+  it.each(['image/svg+xml', 'text/html', 'image/x-icon'])('refuses to store %s', async mimeType => {
+    await expect(repos.evidence.save('alice', proof(mimeType))).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import repos from '@/lib/repositories';
+import { getLocalDateString } from '@/lib/dates';
+import { startSegment } from '@/lib/focus';
+import { POST } from '@/app/api/users/[userId]/tasks/[taskId]/focus/route';
+import { Task, VerificationStatus } from '@/types';
+import { jsonRequest, profileFor, signInAs } from '../helpers';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const task = (id: string, startedAgoHours: number): Task => startSegment({
+  id,
+  title: 'Revise for exam',
+  description: '',
+  categoryId: 'study',
+  durationHours: 0.5,
+  plannedFor: getLocalDateString(Date.now(), 'UTC'),
+  createdAt: Date.now() - startedAgoHours * HOUR_MS,
+  status: VerificationStatus.PENDING,
+}, 'FREE', Date.now() - startedAgoHours * HOUR_MS);
+
+const focus = (taskId: string, body: object) => POST(jsonRequest('POST', body), { params: { userId: 'alice', taskId } });
+
+describe('POST /tasks/:taskId/focus', () => {
+  beforeEach(async () => {
+    signInAs('alice');
+    await repos.profiles.save('alice', { ...profileFor('alice'), dailyLimitPolicy: { enforcement: 'BLOCK', weekdayHours: [1, 1, 1, 1, 1, 1, 1] } });
+    for (const { id } of await repos.tasks.list('alice')) await repos.tasks.remove('alice', id);
+  });
+
+  it('records the override when stopping takes the day past its limit', async () => {
+    await repos.tasks.save('alice', task('long', 2));
+    const response = await focus('long', { action: 'stop' });
+
+    expect(response.status).toBe(200);
+    const { task: stopped } = await response.json();
+    expect(stopped.durationHours).toBe(2);
+    expect(stopped.limitOverride).toMatchObject({ limitHours: 1, loadHours: 2, enforcement: 'BLOCK' });
+  });
+
+  it('records the override on a timer stopped by starting another', async () => {
+    await repos.tasks.save('alice', task('long', 2));
+    await repos.tasks.save('alice', { ...task('next', 0), focusSegments: [] });
+    const response = await focus('next', { action: 'start', mode: 'POMODORO' });
+
+    expect(response.status).toBe(200);
+    expect((await repos.tasks.get('alice', 'long'))?.limitOverride).toMatchObject({ limitHours: 1, enforcement: 'BLOCK' });
+  });
+
+  it('records nothing within the limit', async () => {
+    await repos.tasks.save('alice', task('short', 0.5));
+    const { task: stopped } = await (await focus('short', { action: 'stop' })).json();
+    expect(stopped.limitOverride).toBeUndefined();
+  });
+});
@@ -0,0 +1,36 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import repos from '@/lib/repositories';
+import { POST } from '@/app/api/users/[userId]/profile/route';
+import { jsonRequest, profileFor, signInAs } from '../helpers';
+
+const post = (body: unknown) => POST(jsonRequest('POST', body), { params: { userId: 'alice' } });
+
+describe('POST /profile', () => {
+  beforeEach(async () => {
+    signInAs('alice');
+    await repos.profiles.save('alice', { ...profileFor('alice'), currentStreak: 3, longestStreak: 5 });
+  });
+
+  it('updates only the fields the body carries', async () => {
+    expect((await post({ weeklyGoalHours: 20 })).status).toBe(200);
+    expect(await repos.profiles.get('alice')).toEqual({ ...profileFor('alice'), currentStreak: 3, longestStreak: 5, weeklyGoalHours: 20 });
+  });
+
+  it('keeps the stored streaks', async () => {
+    await post({ ...profileFor('alice'), currentStreak: 99, longestStreak: 99 });
+    expect(await repos.profiles.get('alice')).toMatchObject({ currentStreak: 3, longestStreak: 5 });
+  });
+
+  it('refuses more streak freezes than the cap', async () => {
+    expect((await post({ streakFreezesPerQuarter: 50 })).status).toBe(400);
+    expect((await repos.profiles.get('alice'))?.streakFreezesPerQuarter).toBeUndefined();
+  });
+
+  it('creates a missing profile with no streak', async () => {
+    signInAs('bob');
+    const response = await POST(jsonRequest('POST', { ...profileFor('bob'), currentStreak: 10 }), { params: { userId: 'bob' } });
+
+    expect(response.status).toBe(200);
+    expect((await repos.profiles.get('bob'))?.currentStreak).toBe(0);
+  });
+});
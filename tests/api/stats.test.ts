@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import repos from '@/lib/repositories';
+import { closeWeeks } from '@/lib/streaks';
+import { getPreviousWeekId, getWeekDateRange, getWeekId } from '@/lib/dates';
+import { DELETE, POST } from '@/app/api/users/[userId]/stats/route';
+import { jsonRequest, profileFor, signInAs } from '../helpers';
+
+const currentWeekId = getWeekId(new Date(), 'UTC');
+const lastWeekId = getPreviousWeekId(currentWeekId);
+
+const week = (weekId: string, goalHours: number) => ({
+  weekId,
+  goalHours,
+  ...getWeekDateRange(weekId, 'UTC'),
+  streakActive: false,
+});
+
+const post = (userId: string, body: unknown) => POST(jsonRequest('POST', body), { params: { userId } });
+
+describe('/stats', () => {
+  // Each test gets a fresh user, since deleting weeks leaves tombstones behind
+  let userId: string;
+  let users = 0;
+
+  beforeEach(async () => {
+    userId = `user${++users}`;
+    signInAs(userId);
+    await repos.profiles.save(userId, profileFor(userId));
+  });
+
+  it('refuses a goal of 0', async () => {
+    expect((await post(userId, week(currentWeekId, 0))).status).toBe(400);
+    expect(await repos.stats.get(userId, currentWeekId)).toBeNull();
+  });
+
+  it("takes the current week's goal from the client", async () => {
+    const response = await post(userId, week(currentWeekId, 20));
+    expect((await response.json()).goalHours).toBe(20);
+  });
+
+  it("ignores the client's goal for a past week", async () => {
+    await post(userId, week(lastWeekId, 0.25));
+    expect((await repos.stats.get(userId, lastWeekId))?.goalHours).toBe(14);
+
+    await repos.stats.save(userId, { ...week(lastWeekId, 10), completedHours: 0, screenTimeHours: 0, rating: 0 });
+    await post(userId, week(lastWeekId, 0.25));
+    expect((await repos.stats.get(userId, lastWeekId))?.goalHours).toBe(10);
+  });
+
+  it("doesn't backfill a deleted week when weeks are closed", async () => {
+    const olderWeekId = getPreviousWeekId(lastWeekId);
+    await post(userId, week(olderWeekId, 14));
+    await closeWeeks(userId);
+    expect(await repos.stats.get(userId, lastWeekId)).not.toBeNull();
+
+    const response = await DELETE(new Request(`http://localhost/api?weekId=${lastWeekId}`, { method: 'DELETE' }), { params: { userId } });
+    expect(response.status).toBe(200);
+    await closeWeeks(userId);
+    expect(await repos.stats.get(userId, lastWeekId)).toBeNull();
+    expect(await repos.stats.get(userId, olderWeekId)).not.toBeNull();
+  });
+});
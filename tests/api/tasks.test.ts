@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import repos from '@/lib/repositories';
+import { POST } from '@/app/api/users/[userId]/tasks/route';
+import { Task, VerificationStatus } from '@/types';
+import { jsonRequest, profileFor, signInAs } from '../helpers';
+
+const verified: Task = {
+  id: 'done',
+  title: 'Read chapter 3',
+  description: '',
+  categoryId: 'study',
+  durationHours: 0.5,
+  createdAt: Date.now(),
+  completedAt: Date.now(),
+  status: VerificationStatus.VERIFIED,
+};
+
+const save = (task: Partial<Task>) => POST(jsonRequest('POST', task), { params: { userId: 'alice' } });
+
+describe('POST /tasks', () => {
+  beforeEach(async () => {
+    signInAs('alice');
+    await repos.profiles.save('alice', profileFor('alice'));
+    await repos.tasks.save('alice', verified);
+  });
+
+  it.each([
+    { durationHours: 24 },
+    { title: 'Read chapters 3-9' },
+    { description: 'and the exercises' },
+    { categoryId: 'work' },
+  ])('refuses to change %o on a verified task', async change => {
+    const response = await save({ ...verified, ...change });
+    expect(response.status).toBe(409);
+    expect((await repos.tasks.get('alice', 'done'))?.durationHours).toBe(0.5);
+  });
+
+  it('refuses the same change on a task under appeal', async () => {
+    await repos.tasks.save('alice', { ...verified, status: VerificationStatus.APPEALED, completedAt: undefined });
+    const response = await save({ ...verified, status: VerificationStatus.APPEALED, completedAt: undefined, durationHours: 24 });
+    expect(response.status).toBe(409);
+  });
+
+  it('still allows changes that leave the verdict alone', async () => {
+    const response = await save({ ...verified, plannedFor: '2026-10-20' });
+    expect(response.status).toBe(200);
+    expect((await repos.tasks.get('alice', 'done'))?.plannedFor).toBe('2026-10-20');
+  });
+
+  it('stamps a new task with the server clock', async () => {
+    const before = Date.now();
+    await save({ ...verified, id: 'new', status: undefined, completedAt: undefined, createdAt: 1 });
+    expect((await repos.tasks.get('alice', 'new'))?.createdAt).toBeGreaterThanOrEqual(before);
+  });
+
+  it('clears the override once an edit brings the day back under its limit', async () => {
+    await repos.profiles.save('alice', { ...profileFor('alice'), dailyLimitPolicy: { enforcement: 'WARN', weekdayHours: [1, 1, 1, 1, 1, 1, 1] } });
+    const open = { ...verified, id: 'open', status: VerificationStatus.PENDING, completedAt: undefined, plannedFor: '2026-10-20' };
+    const { task: over } = await (await save({ ...open, durationHours: 2 })).json();
+    expect(over.limitOverride).toMatchObject({ date: '2026-10-20', loadHours: 2 });
+
+    const { task: under } = await (await save({ ...open, durationHours: 1 })).json();
+    expect(under.limitOverride).toBeUndefined();
+  });
+
+  it('allows editing a pending task', async () => {
+    await repos.tasks.save('alice', { ...verified, id: 'open', status: VerificationStatus.PENDING, completedAt: undefined });
+    const response = await save({ ...verified, id: 'open', status: VerificationStatus.PENDING, completedAt: undefined, durationHours: 2 });
+    expect(response.status).toBe(200);
+  });
+});
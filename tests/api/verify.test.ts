@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import repos from '@/lib/repositories';
+import { getLocalDateString } from '@/lib/dates';
+import { verifyTaskEvidence } from '@/services/verifier';
+import { POST } from '@/app/api/users/[userId]/tasks/[taskId]/verify/route';
+import { Task, VerificationStatus } from '@/types';
+import { jsonRequest, profileFor, signInAs } from '../helpers';
+
+vi.mock('@/services/verifier', () => ({ verifyTaskEvidence: vi.fn() }));
+
+// Planned for a day nothing else is on
+const backdated: Task = {
+  id: 'essay',
+  title: 'Write essay',
+  description: '',
+  categoryId: 'study',
+  durationHours: 3,
+  plannedFor: '2020-01-01',
+  createdAt: Date.now(),
+  status: VerificationStatus.PENDING,
+};
+
+const verify = () => POST(
+  jsonRequest('POST', { items: [{ data: Buffer.from('%PDF-').toString('base64'), mimeType: 'application/pdf' }] }),
+  { params: { userId: 'alice', taskId: 'essay' } }
+);
+
+describe('POST /tasks/:taskId/verify', () => {
+  beforeEach(async () => {
+    signInAs('alice');
+    await repos.profiles.save('alice', { ...profileFor('alice'), dailyLimitPolicy: { enforcement: 'BLOCK', weekdayHours: [1, 1, 1, 1, 1, 1, 1] } });
+    await repos.tasks.save('alice', backdated);
+  });
+
+  it('records the override on the day the task is completed', async () => {
+    vi.mocked(verifyTaskEvidence).mockResolvedValueOnce({ verified: true, reason: 'Essay shown', model: 'test', notes: [''] });
+    const { task } = await (await verify()).json();
+
+    expect(task.status).toBe(VerificationStatus.VERIFIED);
+    expect(task.limitOverride).toMatchObject({ date: getLocalDateString(task.completedAt, 'UTC'), limitHours: 1, loadHours: 3, enforcement: 'BLOCK' });
+  });
+
+  it('records nothing on a rejection', async () => {
+    vi.mocked(verifyTaskEvidence).mockResolvedValueOnce({ verified: false, reason: 'Blank page', model: 'test', notes: [''] });
+    const { task } = await (await verify()).json();
+
+    expect(task.limitOverride).toBeUndefined();
+  });
+});
@@ -0,0 +1,25 @@
+import { vi } from 'vitest';
+import { getServerSession } from 'next-auth';
+import { UserProfile } from '@/types';
+
+// Signs the next requests in as `userId`, or out with null
+export const signInAs = (userId: string | null) => {
+  vi.mocked(getServerSession).mockResolvedValue(userId ? { user: { id: userId }, expires: '' } : null);
+};
+
+export const jsonRequest = (method: string, body?: unknown, headers: Record<string, string> = {}) =>
+  new Request('http://localhost/api', {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+export const profileFor = (name: string): UserProfile => ({
+  name,
+  email: `${name}@example.com`,
+  avatarUrl: '',
+  weeklyGoalHours: 14,
+  currentStreak: 0,
+  timezone: 'UTC',
+  googleId: name,
+});
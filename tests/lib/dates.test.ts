@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getDayIndex,
+  getLocalDateString,
+  getNextWeekId,
+  getPreviousWeekId,
+  getWeekDateString,
+  getWeekEnd,
+  getWeekId,
+  getWeekIdFromDateString,
+  getWeekStart,
+} from '@/lib/dates';
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+const LONDON = 'Europe/London';
+
+describe('week 53', () => {
+  it.each([
+    ['2020-12-28', '2020-W53'],
+    ['2020-12-31', '2020-W53'],
+    ['2021-01-03', '2020-W53'],
+    ['2021-01-04', '2021-W01'],
+    ['2019-12-30', '2020-W01'],
+    ['2026-12-31', '2026-W53'],
+    ['2022-01-02', '2021-W52'],
+  ])('puts %s in %s', (date, weekId) => {
+    expect(getWeekIdFromDateString(date)).toBe(weekId);
+  });
+
+  it('steps into and out of 2020-W53', () => {
+    expect(getNextWeekId('2020-W52')).toBe('2020-W53');
+    expect(getNextWeekId('2020-W53')).toBe('2021-W01');
+    expect(getPreviousWeekId('2021-W01')).toBe('2020-W53');
+  });
+
+  it('skips week 53 in years without one', () => {
+    expect(getNextWeekId('2021-W52')).toBe('2022-W01');
+    expect(getPreviousWeekId('2022-W01')).toBe('2021-W52');
+  });
+
+  it('runs 2020-W53 from Monday 28 December to Sunday 3 January', () => {
+    expect(getWeekDateString('2020-W53')).toBe('2020-12-28');
+    expect(getWeekDateString('2020-W53', 6)).toBe('2021-01-03');
+    expect(getWeekStart('2020-W53', 'UTC')).toBe(Date.UTC(2020, 11, 28));
+    expect(getWeekEnd('2020-W53', 'UTC')).toBe(Date.UTC(2021, 0, 4) - 1);
+  });
+});
+
+describe('DST changes', () => {
+  // Europe/London leaves GMT for BST at 01:00 UTC on Sunday 31 March 2024,
+  // the last day of 2024-W13
+  it('makes 2024-W13 an hour short in London', () => {
+    expect(getWeekStart('2024-W13', LONDON)).toBe(Date.UTC(2024, 2, 25));
+    expect(getWeekEnd('2024-W13', LONDON)).toBe(Date.UTC(2024, 2, 31, 23) - 1);
+    expect(getWeekEnd('2024-W13', LONDON) + 1 - getWeekStart('2024-W13', LONDON)).toBe(WEEK_MS - HOUR_MS);
+    expect(getWeekStart('2024-W14', LONDON)).toBe(getWeekEnd('2024-W13', LONDON) + 1);
+  });
+
+  it('makes 2024-W43 an hour long in London', () => {
+    expect(getWeekStart('2024-W43', LONDON)).toBe(Date.UTC(2024, 9, 20, 23));
+    expect(getWeekEnd('2024-W43', LONDON)).toBe(Date.UTC(2024, 9, 28) - 1);
+    expect(getWeekEnd('2024-W43', LONDON) + 1 - getWeekStart('2024-W43', LONDON)).toBe(WEEK_MS + HOUR_MS);
+  });
+
+  it('puts late Sunday in the right week after clocks go forward', () => {
+    const lateSunday = Date.UTC(2024, 2, 31, 22, 30);
+    const afterMidnight = Date.UTC(2024, 2, 31, 23, 30);
+    expect(getLocalDateString(lateSunday, LONDON)).toBe('2024-03-31');
+    expect(getWeekId(lateSunday, LONDON)).toBe('2024-W13');
+    expect(getDayIndex(lateSunday, LONDON)).toBe(6);
+    expect(getLocalDateString(afterMidnight, LONDON)).toBe('2024-04-01');
+    expect(getWeekId(afterMidnight, LONDON)).toBe('2024-W14');
+    expect(getWeekId(afterMidnight, 'UTC')).toBe('2024-W13');
+  });
+
+  it('keeps the hour that repeats when clocks go back on one day', () => {
+    // 01:30 happens twice in London on 27 October 2024
+    expect(getLocalDateString(Date.UTC(2024, 9, 27, 0, 30), LONDON)).toBe('2024-10-27');
+    expect(getLocalDateString(Date.UTC(2024, 9, 27, 1, 30), LONDON)).toBe('2024-10-27');
+    expect(getWeekId(Date.UTC(2024, 9, 27, 23, 30), LONDON)).toBe('2024-W43');
+    expect(getWeekId(Date.UTC(2024, 9, 28), LONDON)).toBe('2024-W44');
+  });
+});
@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import repos from '@/lib/repositories';
+import { EXPORT_FORMAT, EXPORT_VERSION, importAccount } from '@/lib/portability';
+import { Project, Task, VerificationStatus } from '@/types';
+import { profileFor } from '../helpers';
+
+const HASH = 'b'.repeat(64);
+const NOW = Date.UTC(2026, 0, 7, 12);
+
+const verified: Task = {
+  id: 'done',
+  title: 'Read chapter 3',
+  description: '',
+  categoryId: 'study',
+  durationHours: 2,
+  createdAt: NOW,
+  completedAt: NOW,
+  status: VerificationStatus.VERIFIED,
+};
+
+const project: Project = { id: 'p1', name: 'Thesis', targetHours: 40, createdAt: NOW };
+
+const exportOf = (contents: object) => ({ format: EXPORT_FORMAT, version: EXPORT_VERSION, ...contents });
+
+describe('importAccount', () => {
+  let userId: string;
+  let users = 0;
+
+  beforeEach(async () => {
+    userId = `user${++users}`;
+    await repos.profiles.save(userId, profileFor(userId));
+  });
+
+  it('imports a verified task as pending without its verdict', async () => {
+    await importAccount(userId, exportOf({
+      tasks: [{ ...verified, appeal: { justification: 'It was done', submittedAt: NOW, outcome: VerificationStatus.VERIFIED } }],
+    }));
+
+    const task = await repos.tasks.get(userId, 'done');
+    expect(task?.status).toBe(VerificationStatus.PENDING);
+    expect(task?.completedAt).toBeUndefined();
+    expect(task?.appeal).toBeUndefined();
+  });
+
+  it('drops the verdict of a deleted task imported with a bigger claim', async () => {
+    await repos.evidence.save(userId, { hash: HASH, mimeType: 'image/png', data: 'aGk=', size: 2, createdAt: NOW });
+    await repos.verifications.add(userId, {
+      id: 'a1', taskId: 'done', attemptedAt: NOW, model: 'test', verdict: VerificationStatus.VERIFIED, reason: '', evidenceHash: HASH,
+    });
+    await repos.tasks.save(userId, { ...verified, durationHours: 0.5 });
+    await repos.tasks.remove(userId, 'done');
+    await importAccount(userId, exportOf({ tasks: [{ ...verified, durationHours: 24 }] }));
+
+    expect((await repos.tasks.get(userId, 'done'))?.status).toBe(VerificationStatus.PENDING);
+  });
+
+  it("imports weeks unsealed under the profile's goal", async () => {
+    await importAccount(userId, exportOf({
+      stats: [{
+        weekId: '2026-W02', startDate: '2026-01-05', endDate: '2026-01-11', goalHours: 0.5, completedHours: 40,
+        screenTimeHours: 0, rating: 10, streakActive: true, sealedAt: NOW,
+      }],
+    }));
+
+    const week = await repos.stats.get(userId, '2026-W02');
+    expect(week?.goalHours).toBe(14);
+    expect(week?.sealedAt).toBeUndefined();
+    expect(week?.completedHours).toBe(0);
+  });
+
+  it('moves tasks to a renumbered project', async () => {
+    await repos.projects.save(userId, { ...project, name: 'Side project' });
+    const summary = await importAccount(userId, exportOf({
+      projects: [project],
+      tasks: [{ ...verified, id: 't1', status: VerificationStatus.PENDING, completedAt: undefined, projectId: 'p1' }],
+    }));
+
+    expect(summary.projects).toEqual({ added: 0, remapped: 1, skipped: 0 });
+    const imported = (await repos.projects.list(userId)).find(stored => stored.name === 'Thesis');
+    expect(imported?.id).not.toBe('p1');
+    expect((await repos.tasks.get(userId, 't1'))?.projectId).toBe(imported?.id);
+  });
+
+  it('drops links to projects and templates that are not in the file', async () => {
+    await repos.projects.save(userId, project);
+    await importAccount(userId, exportOf({
+      tasks: [{ ...verified, id: 't1', status: VerificationStatus.PENDING, completedAt: undefined, projectId: 'p1', templateId: 'tpl1' }],
+    }));
+
+    const task = await repos.tasks.get(userId, 't1');
+    expect(task?.projectId).toBeUndefined();
+    expect(task?.templateId).toBeUndefined();
+  });
+
+  it('records the override for tasks that take a day past its limit', async () => {
+    await repos.profiles.save(userId, { ...profileFor(userId), dailyLimitPolicy: { enforcement: 'BLOCK', weekdayHours: [1, 1, 1, 1, 1, 1, 1] } });
+    const pending = { ...verified, status: VerificationStatus.PENDING, completedAt: undefined, plannedFor: '2026-01-07' };
+    await importAccount(userId, exportOf({ tasks: [{ ...pending, id: 't1', durationHours: 1 }, { ...pending, id: 't2', durationHours: 1 }] }));
+
+    expect((await repos.tasks.get(userId, 't1'))?.limitOverride).toBeUndefined();
+    expect((await repos.tasks.get(userId, 't2'))?.limitOverride).toMatchObject({ date: '2026-01-07', limitHours: 1, loadHours: 2, enforcement: 'BLOCK' });
+  });
+});
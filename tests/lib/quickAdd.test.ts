@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CATEGORIES } from '@/lib/categories';
+import { parseQuickAdd } from '@/lib/quickAdd';
+
+// A Wednesday
+const TODAY = '2026-01-07';
+
+const parse = (text: string) => parseQuickAdd(text, TODAY, DEFAULT_CATEGORIES);
+
+describe('parseQuickAdd', () => {
+  it.each([
+    ['30m', 0.5],
+    ['45 min', 0.75],
+    ['90 mins', 1.5],
+    ['15 minute', 0.25],
+    ['20 minutes', 0.33],
+    ['1h 30m', 1.5],
+    ['2.5h', 2.5],
+  ])('reads %s as %sh', (duration, hours) => {
+    const draft = parse(`answer emails ${duration}`);
+    expect(draft.durationHours).toBe(hours);
+    expect(draft.title).toBe('Answer emails');
+  });
+
+  it.each([
+    ['fix bug in 2h', 'Fix bug'],
+    ['read chapter 4 for 30m', 'Read chapter 4'],
+    ['flashcards for about 45 minutes', 'Flashcards'],
+    ['deploy the fix around 1h 15m', 'Deploy the fix'],
+  ])('drops the connector before the duration in "%s"', (text, title) => {
+    expect(parse(text).title).toBe(title);
+  });
+
+  it('keeps a connector that is not next to the duration', () => {
+    const draft = parse('work on the report 2h tomorrow');
+    expect(draft).toMatchObject({ title: 'Work on the report', categoryId: 'work', durationHours: 2, plannedFor: '2026-01-08' });
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import repos from '@/lib/repositories';
+import { rolloverUser } from '@/lib/rollover';
+import { VerificationStatus } from '@/types';
+import { profileFor } from '../helpers';
+
+// 2020 has an ISO week 53; Monday 4 January 2021 starts 2021-W01
+const LAST_WEEK_OF_2020 = new Date('2020-12-31T12:00:00Z');
+const FIRST_WEEK_OF_2021 = new Date('2021-01-04T09:00:00Z');
+
+describe('rolloverUser', () => {
+  let userId: string;
+  let users = 0;
+
+  beforeEach(async () => {
+    userId = `user${++users}`;
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(LAST_WEEK_OF_2020);
+    await repos.profiles.save(userId, profileFor(userId));
+    await repos.tasks.save(userId, {
+      id: 'nye',
+      title: 'Year review',
+      description: '',
+      categoryId: 'study',
+      durationHours: 2,
+      createdAt: LAST_WEEK_OF_2020.getTime(),
+      completedAt: LAST_WEEK_OF_2020.getTime(),
+      status: VerificationStatus.VERIFIED,
+    });
+    await rolloverUser(userId, LAST_WEEK_OF_2020);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens 2020-W53 as the current week', async () => {
+    const week = await repos.stats.get(userId, '2020-W53');
+    expect(week?.completedHours).toBe(2);
+    expect(week?.sealedAt).toBeUndefined();
+  });
+
+  it('seals 2020-W53 and opens 2021-W01', async () => {
+    vi.setSystemTime(FIRST_WEEK_OF_2021);
+    const result = await rolloverUser(userId, FIRST_WEEK_OF_2021);
+
+    expect(result).toEqual({
+      userId,
+      sealedWeekIds: ['2020-W53'],
+      currentWeekId: '2021-W01',
+      createdCurrentWeek: true,
+    });
+    const sealed = await repos.stats.get(userId, '2020-W53');
+    expect(sealed?.sealedAt).toBe(FIRST_WEEK_OF_2021.getTime());
+    expect(sealed?.completedHours).toBe(2);
+    expect(await repos.reports.get(userId, '2020-W53')).not.toBeNull();
+    expect((await repos.stats.get(userId, '2021-W01'))?.completedHours).toBe(0);
+  });
+
+  it('judges the streak on the sealed totals', async () => {
+    // Stored totals that missed the task, under a goal the task meets
+    const stored = await repos.stats.get(userId, '2020-W53');
+    await repos.stats.save(userId, { ...stored!, goalHours: 2, completedHours: 0 });
+
+    vi.setSystemTime(FIRST_WEEK_OF_2021);
+    await rolloverUser(userId, FIRST_WEEK_OF_2021);
+
+    expect((await repos.stats.get(userId, '2020-W53'))?.streakActive).toBe(true);
+    expect((await repos.profiles.get(userId))?.currentStreak).toBe(1);
+  });
+
+  it('changes nothing when run again', async () => {
+    vi.setSystemTime(FIRST_WEEK_OF_2021);
+    await rolloverUser(userId, FIRST_WEEK_OF_2021);
+    const stats = await repos.stats.list(userId);
+    const report = await repos.reports.get(userId, '2020-W53');
+
+    const later = new Date(FIRST_WEEK_OF_2021.getTime() + 60 * 60 * 1000);
+    vi.setSystemTime(later);
+    const result = await rolloverUser(userId, later);
+
+    expect(result).toEqual({ userId, sealedWeekIds: [], currentWeekId: '2021-W01', createdCurrentWeek: false });
+    expect(await repos.stats.list(userId)).toEqual(stats);
+    expect(await repos.reports.get(userId, '2020-W53')).toEqual(report);
+  });
+});
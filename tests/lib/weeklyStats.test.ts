@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import repos from '@/lib/repositories';
+import { DEFAULT_RATING_POLICY } from '@/lib/rating';
+import { getWeekDateRange } from '@/lib/dates';
+import { recomputeWeek } from '@/lib/weeklyStats';
+import { Task, VerificationStatus } from '@/types';
+import { profileFor } from '../helpers';
+
+const WEEK_ID = '2026-W02'; // Monday 5 January to Sunday 11 January
+
+const verifiedOn = (id: string, day: number, durationHours: number): Task => ({
+  id,
+  title: id,
+  description: '',
+  categoryId: 'study',
+  durationHours,
+  createdAt: Date.UTC(2026, 0, day, 9),
+  completedAt: Date.UTC(2026, 0, day, 10),
+  status: VerificationStatus.VERIFIED,
+});
+
+describe('recomputeWeek', () => {
+  it("scores the daily target against each day's own limit", async () => {
+    await repos.profiles.save('alice', {
+      ...profileFor('alice'),
+      ratingPolicy: { ...DEFAULT_RATING_POLICY, dailyTargetBonus: 1 },
+      dailyLimitPolicy: { enforcement: 'WARN', weekdayHours: [4, 4, 4, 4, 4, 1, 1] },
+    });
+    // Monday reaches the even share (2h) but not its own 4h; the weekend
+    // reaches its own 1h but not the even share
+    await repos.tasks.save('alice', verifiedOn('monday', 5, 2));
+    await repos.tasks.save('alice', verifiedOn('saturday', 10, 1));
+    await repos.tasks.save('alice', verifiedOn('sunday', 11, 1));
+
+    const week = await recomputeWeek('alice', WEEK_ID, { ...getWeekDateRange(WEEK_ID, 'UTC'), goalHours: 14, streakActive: false });
+    const dailyTarget = week?.ratingBreakdown?.components.find(component => component.key === 'dailyTarget');
+
+    expect(dailyTarget?.detail).toBe('Reached the daily limit (1-4h by weekday) on 2 of 7 days');
+  });
+});
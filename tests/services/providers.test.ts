@@ -0,0 +1,160 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GenerateContentResponse } from '@google/genai';
+import { ai, GEMINI_MODEL } from '@/services/geminiService';
+import { createGeminiProvider } from '@/services/providers/gemini';
+import { createOpenAIProvider } from '@/services/providers/openai';
+import { createLocalProvider } from '@/services/providers/local';
+import { EvidenceInput, VerificationProvider } from '@/services/verificationProvider';
+
+const TASK = { title: 'Write essay', description: 'First draft of the history essay' };
+const APPEAL = { originalReason: 'The page is blank', justification: 'The essay is on the second page of the PDF' };
+
+// 400x400 PNG header followed by enough varied bytes to pass as a real image
+const detailedImage = (): EvidenceInput => {
+  const bytes = Buffer.alloc(4000);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = (i * 7919) % 251;
+  bytes.writeUInt32BE(0x89504e47, 0);
+  bytes.writeUInt32BE(400, 16);
+  bytes.writeUInt32BE(400, 20);
+  return { data: bytes.toString('base64'), mimeType: 'image/png' };
+};
+
+const blankPdf: EvidenceInput = { data: Buffer.from('%PDF-').toString('base64'), mimeType: 'application/pdf' };
+
+// What an LLM replies for a verdict on two items
+const reply = (verified: boolean) => JSON.stringify({
+  verified,
+  reason: verified ? 'The draft is visible.' : 'Nothing shows the essay.',
+  items: [{ item: 1, note: 'First item.' }, { item: 2, note: 'Second item.' }],
+});
+
+interface ProviderCase {
+  name: string;
+  model: string;
+  create: () => VerificationProvider;
+  // Makes the next call come back with `verified` and returns the items to send
+  arrange: (verified: boolean) => EvidenceInput[];
+}
+
+const PROVIDERS: ProviderCase[] = [
+  {
+    name: 'local',
+    model: 'local-rules-v1',
+    create: () => createLocalProvider(''),
+    arrange: verified => verified ? [detailedImage(), blankPdf] : [blankPdf, blankPdf],
+  },
+  {
+    name: 'gemini',
+    model: GEMINI_MODEL,
+    create: createGeminiProvider,
+    arrange: verified => {
+      const response = new GenerateContentResponse();
+      response.candidates = [{ content: { parts: [{ text: reply(verified) }] } }];
+      vi.spyOn(ai.models, 'generateContent').mockResolvedValueOnce(response);
+      return [detailedImage(), blankPdf];
+    },
+  },
+  {
+    name: 'openai',
+    model: 'test-model',
+    create: () => createOpenAIProvider('http://llm.test/v1', 'key', 'test-model'),
+    arrange: verified => {
+      vi.stubGlobal('fetch', vi.fn(async () => Response.json({ choices: [{ message: { content: reply(verified) } }] })));
+      return [detailedImage(), blankPdf];
+    },
+  },
+];
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe.each(PROVIDERS)('$name provider', ({ name, model, create, arrange }) => {
+  it('has its name', () => {
+    expect(create().name).toBe(name);
+  });
+
+  it.each([true, false])('returns a verified=%s verdict with a note per item', async verified => {
+    const items = arrange(verified);
+    const verdict = await create().verify(TASK, items);
+
+    expect(verdict.verified).toBe(verified);
+    expect(verdict.reason).toEqual(expect.any(String));
+    expect(verdict.reason).not.toBe('');
+    expect(verdict.model).toBe(model);
+    expect(verdict.notes).toHaveLength(items.length);
+  });
+
+  it.each([true, false])('reviews an appeal to verified=%s', async verified => {
+    const items = arrange(verified);
+    const verdict = await create().reviewAppeal(TASK, APPEAL, items);
+
+    expect(verdict.verified).toBe(verified);
+    expect(verdict.model).toBe(model);
+    expect(verdict.notes).toHaveLength(items.length);
+  });
+});
+
+describe('local provider', () => {
+  const flagged = { ...TASK, durationCheck: { claimedHours: 8, trackedHours: 1, flagged: true } };
+
+  it('rejects a claim flagged as well above the focus timer', async () => {
+    const verdict = await createLocalProvider('').verify(flagged, [detailedImage()]);
+
+    expect(verdict.verified).toBe(false);
+    expect(verdict.reason).toContain('8h');
+  });
+
+  it('upholds the rejection of a flagged claim on appeal', async () => {
+    expect((await createLocalProvider('').reviewAppeal(flagged, APPEAL, [detailedImage()])).verified).toBe(false);
+  });
+
+  it('passes a claim the timer backs up', async () => {
+    const timed = { ...TASK, durationCheck: { claimedHours: 1, trackedHours: 1, flagged: false } };
+    expect((await createLocalProvider('').verify(timed, [detailedImage()])).verified).toBe(true);
+  });
+});
+
+describe('gemini provider', () => {
+  it('sends every item inline before the prompt', async () => {
+    const items = PROVIDERS[1].arrange(true);
+    await createGeminiProvider().verify(TASK, items);
+
+    const [request] = vi.mocked(ai.models.generateContent).mock.calls[0];
+    const parts = (request.contents as { parts: object[] }).parts;
+    expect(parts.slice(0, 2)).toEqual(items.map(item => ({ inlineData: item })));
+    expect(parts[2]).toEqual({ text: expect.stringContaining(TASK.title) });
+  });
+});
+
+describe('openai provider', () => {
+  it('posts to the chat-completions endpoint with the key', async () => {
+    PROVIDERS[2].arrange(true);
+    await createOpenAIProvider('http://llm.test/v1/', 'key', 'test-model').verify(TASK, [detailedImage()]);
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe('http://llm.test/v1/chat/completions');
+    expect(new Headers(init?.headers).get('Authorization')).toBe('Bearer key');
+  });
+
+  it('throws when the endpoint fails', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('overloaded', { status: 503 })));
+    await expect(createOpenAIProvider('http://llm.test/v1', '', 'test-model').verify(TASK, [detailedImage()]))
+      .rejects.toThrow('503');
+  });
+});
+
+describe('verifier', () => {
+  it('falls back to rejecting everything for an unknown provider', async () => {
+    vi.stubEnv('VERIFICATION_PROVIDER', 'nonexistent');
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.resetModules();
+    const { default: verifier, verifyTaskEvidence } = await import('@/services/verifier');
+
+    expect(verifier.name).toBe('disabled');
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('nonexistent'));
+    expect((await verifyTaskEvidence(TASK.title, TASK.description, [detailedImage()])).verified).toBe(false);
+  });
+});
@@ -0,0 +1,12 @@
+import { vi } from 'vitest';
+
+// Every test file gets a fresh in-memory store in place of the configured
+// driver, and a session it controls through signInAs() (see helpers.ts).
+vi.mock('@/lib/redis', async () => {
+  const { createMemoryStore } = await import('@/lib/store');
+  return { default: createMemoryStore() };
+});
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+
+vi.mock('@/lib/auth', () => ({ authOptions: {} }));
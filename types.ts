@@ -1,6 +1,10 @@
-export enum TaskType {
-  STUDY = 'Study/Learning',
-  WORK = 'Work/Projects',
+// User-defined kind of task (see lib/categories.ts for the defaults)
+export interface TaskCategory {
+  id: string;
+  name: string;
+  color: string; // Hex, e.g. "#818cf8"
+  icon: string; // Name of an entry in components/Icons.tsx (one of CATEGORY_ICONS)
+  weeklyTargetHours?: number;
 }
 
 export enum VerificationStatus {
@@ -8,18 +12,130 @@ export enum VerificationStatus {
   VERIFYING = 'VERIFYING',
   VERIFIED = 'VERIFIED',
   REJECTED = 'REJECTED',
+  APPEALED = 'APPEALED', // Rejection disputed; a second review decides VERIFIED or REJECTED
+}
+
+export type Verdict = VerificationStatus.VERIFIED | VerificationStatus.REJECTED;
+
+// A dispute of the task's current rejection. At most one per rejection;
+// uploading new proof starts over.
+export interface TaskAppeal {
+  justification: string;
+  submittedAt: number;
+  resolvedAt?: number;
+  outcome?: Verdict;
+}
+
+export type FocusMode = 'POMODORO' | 'FREE';
+
+// One stretch of focus-timer time on a task, stamped by the server. A
+// segment without endedAt is still running.
+export interface FocusSegment {
+  startedAt: number;
+  endedAt?: number;
+  mode: FocusMode;
+}
+
+export type LimitEnforcement = 'WARN' | 'BLOCK' | 'JUSTIFY';
+
+// How the daily load limit is applied (see lib/dailyLimit.ts for the default)
+export interface DailyLimitPolicy {
+  enforcement: LimitEnforcement;
+  weekdayHours?: number[]; // Seven limits, Monday first; missing means an even share of the weekly goal
+}
+
+export interface LimitOverride {
+  date: string; // YYYY-MM-DD the limit applied to
+  limitHours: number;
+  loadHours: number; // The day's load with this task
+  enforcement: LimitEnforcement;
+  justification?: string;
+  recordedAt: number;
 }
 
 export interface Task {
   id: string;
   title: string;
   description: string;
-  type: TaskType;
+  categoryId: string;
   durationHours: number;
+  plannedFor?: string; // YYYY-MM-DD the user means to do it
+  projectId?: string; // Project the verified hours count towards
+  templateId?: string; // Recurring template this task was created from
+  focusSegments?: FocusSegment[]; // Focus timer history (see lib/focus.ts)
+  limitOverride?: LimitOverride; // Set when the task took its day past the daily limit
   createdAt: number;
   completedAt?: number;
   status: VerificationStatus;
   rejectionReason?: string;
+  appeal?: TaskAppeal;
+}
+
+// A larger goal tasks can be attached to. It has a target in hours, a
+// deadline, or both.
+export interface Project {
+  id: string;
+  name: string;
+  description?: string;
+  targetHours?: number;
+  deadline?: string; // YYYY-MM-DD
+  createdAt: number;
+  archivedAt?: number; // Hidden from the task form once archived
+}
+
+// Creates a PENDING task on each day its schedule falls on. Tasks already
+// created are independent copies, so edits only affect later occurrences.
+export interface TaskTemplate {
+  id: string;
+  title: string;
+  description: string;
+  categoryId: string;
+  durationHours: number;
+  projectId?: string;
+  rrule: string; // e.g. "FREQ=WEEKLY;BYDAY=MO,WE,FR" (see lib/recurrence.ts)
+  startDate: string; // YYYY-MM-DD the schedule counts from
+  createdAt: number;
+  pausedAt?: number;
+  lastRunDate?: string; // Last local day the template was considered, created or skipped
+}
+
+// Proof file (image, PDF or short video), stored once per content hash
+export interface Evidence {
+  hash: string; // SHA-256 of the file bytes, hex
+  mimeType: string;
+  data: string; // Base64
+  size: number; // Bytes
+  createdAt: number;
+}
+
+// What the verifier said about one item of an attempt
+export interface EvidenceNote {
+  evidenceHash: string;
+  mimeType: string;
+  note?: string;
+}
+
+// One verification attempt. Written once and never changed.
+export interface VerificationAttempt {
+  id: string;
+  taskId: string;
+  attemptedAt: number;
+  kind?: 'VERIFICATION' | 'APPEAL'; // Missing on attempts recorded before appeals existed
+  model: string;
+  verdict: Verdict;
+  reason: string;
+  evidenceHash: string; // First item judged
+  justification?: string; // Appeals only
+  additionalEvidenceHashes?: string[]; // Extra items attached to an appeal
+  items?: EvidenceNote[]; // Every item judged, in order; missing on single-image attempts
+  durationCheck?: DurationCheck; // Missing when the task had no focus sessions
+}
+
+// Claimed duration against focus-timer time, as it stood when proof was judged
+export interface DurationCheck {
+  claimedHours: number;
+  trackedHours: number;
+  flagged: boolean; // The claim is well above the tracked time
 }
 
 export interface ScreenTimeEntry {
@@ -28,6 +144,47 @@ export interface ScreenTimeEntry {
   submittedAt: number;
 }
 
+export type RatingComponentKey = 'goalProgress' | 'screenTime' | 'consistency' | 'balance' | 'dailyTarget';
+
+// How a user's weeks are scored (see lib/rating.ts for the defaults)
+export interface RatingPolicy {
+  goalWeight: number; // Points for reaching the weekly goal
+  goalProgressCap: number; // Progress counted up to this fraction of the goal, e.g. 1.2
+  consistencyWeight: number;
+  consistencyTargetDays: number; // Active days needed for full consistency points
+  balanceWeight: number;
+  dailyTargetBonus: number; // Points for hitting the daily target (goal / 7) every day
+  screenTimeAllowanceHours: number; // Weekly screen time that costs nothing
+  screenTimeHoursPerPoint: number;
+  maxScreenTimePenalty: number;
+  categoryMultipliers: Record<string, number>; // By category id, applied to hours counted toward the goal; missing means 1
+}
+
+export interface RatingComponent {
+  key: RatingComponentKey;
+  label: string;
+  points: number; // Contribution to the score; negative for penalties
+  maxPoints: number; // Most it can add (or, for penalties, take away)
+  detail: string;
+}
+
+// How a week's rating was reached. `score` is the sum of the components,
+// clamped to 0-10.
+export interface RatingBreakdown {
+  score: number;
+  components: RatingComponent[];
+  explanation: string;
+  explainedBy: string; // Model that wrote the explanation, or "template"
+}
+
+// One week scored under a draft policy, next to its stored rating
+export interface RatingPreview {
+  weekId: string;
+  oldRating: number;
+  newRating: number;
+  sealed: boolean;
+}
+
 export interface WeeklyStats {
   weekId: string; // YYYY-Www
   goalHours: number;
@@ -35,19 +192,44 @@ export interface WeeklyStats {
   screenTimeHours: number;
   rating: number; // 0.0 to 10.0
   streakActive: boolean;
+  streakFrozen?: boolean; // Missed goal, but a freeze token kept the streak alive
   startDate: string;
   endDate: string;
+  sealedAt?: number; // Set once the week is closed; totals and rating are final
+  appealedHours?: number; // Part of completedHours that was verified on appeal
+  appealsWon?: number;
+  appealsLost?: number;
+  ratingBreakdown?: RatingBreakdown; // Missing on weeks rated before breakdowns existed
 }
 
 export interface HistoryEntry extends WeeklyStats {
   id: string;
 }
 
+// Retrospective written when a week closes
+export interface CoachingReport {
+  weekId: string;
+  generatedAt: number;
+  generatedBy: string; // Model that wrote it, or "template"
+  retrospective: string;
+  suggestions: string[];
+  recommendedGoalHours: number;
+  weakestDay: string; // YYYY-MM-DD
+  slippedCategories: string[]; // Category ids that fell well below the recent average
+  limitOverrides?: { date: string; title: string; loadHours: number; limitHours: number; justification?: string }[]; // Missing on older reports
+}
+
 export interface UserProfile {
   name: string;
   email: string;
   avatarUrl: string;
   weeklyGoalHours: number;
   currentStreak: number;
+  longestStreak?: number;
+  streakFreezesPerQuarter?: number;
+  timezone?: string; // IANA zone, e.g. "Europe/Berlin"; weeks and days are computed in it
+  ratingPolicy?: RatingPolicy; // Missing means the default policy
+  categories?: TaskCategory[]; // Missing means the default categories
+  dailyLimitPolicy?: DailyLimitPolicy; // Missing means warn at an even share of the weekly goal
   googleId?: string;
 }
\ No newline at end of file